@@ -2,8 +2,15 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { TaskRepositoryProvider } from "@/components/TaskRepositoryProvider";
+import { AppLayout } from "@/components/AppLayout";
+import { DEFAULT_PROJECT_ID, projectPath } from "@/lib/projects";
+import { TRASH_PATH } from "@/lib/trash";
 import Index from "./pages/Index";
+import Board from "./pages/Board";
+import Calendar from "./pages/Calendar";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,13 +20,21 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <TaskRepositoryProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Navigate to={projectPath(DEFAULT_PROJECT_ID)} replace />} />
+            <Route element={<AppLayout />}>
+              <Route path="/projects/:projectId" element={<Index />} />
+              <Route path="/projects/:projectId/board" element={<Board />} />
+              <Route path="/projects/:projectId/calendar" element={<Calendar />} />
+              <Route path={TRASH_PATH} element={<Trash />} />
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TaskRepositoryProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,24 @@
+import { Outlet } from "react-router-dom";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { useReminders } from "@/hooks/useReminders";
+import { useTrashRetention } from "@/hooks/useTrash";
+import { useUndoShortcuts } from "@/hooks/useUndoShortcuts";
+
+// Shell shared by every workspace route: project switcher on the left, the
+// active page on the right. Reminders, undo shortcuts and the trash's
+// retention policy apply whichever page is open.
+export const AppLayout = () => {
+  useReminders();
+  useUndoShortcuts();
+  useTrashRetention();
+
+  return (
+    <SidebarProvider>
+      <AppSidebar />
+      <SidebarInset>
+        <Outlet />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { NavLink, useNavigate } from "react-router-dom";
+import { ArrowDownUp, Folder, Inbox, MoreHorizontal, Plus, Trash2 } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ImportExportDialog } from "@/components/ImportExportDialog";
+import { useProjects } from "@/hooks/useProjects";
+import { useTasks } from "@/hooks/useTasks";
+import { DEFAULT_PROJECT_ID, projectPath } from "@/lib/projects";
+import { TRASH_PATH } from "@/lib/trash";
+import { PROJECT_NAME_MAX_LENGTH } from "@/types/Project";
+
+interface ProjectNameInputProps {
+  initialName?: string;
+  label: string;
+  onSubmit: (name: string) => void;
+  onDone: () => void;
+}
+
+const ProjectNameInput = ({ initialName = "", label, onSubmit, onDone }: ProjectNameInputProps) => {
+  const [name, setName] = useState(initialName);
+
+  return (
+    <SidebarInput
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && name.trim()) {
+          onSubmit(name);
+          onDone();
+        } else if (e.key === "Escape") {
+          onDone();
+        }
+      }}
+      onBlur={onDone}
+      maxLength={PROJECT_NAME_MAX_LENGTH}
+      aria-label={label}
+      placeholder="Project name"
+      autoFocus
+    />
+  );
+};
+
+export const AppSidebar = () => {
+  const { projects, addProject, renameProject, removeProject } = useProjects();
+  const { tasks, trashedTasks } = useTasks();
+  const navigate = useNavigate();
+  const [isAdding, setIsAdding] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [importExportOpen, setImportExportOpen] = useState(false);
+
+  const openCount = (projectId: string) =>
+    tasks.filter(task => task.projectId === projectId && !task.completed).length;
+
+  const handleRemove = (projectId: string) => {
+    navigate(projectPath(DEFAULT_PROJECT_ID));
+    removeProject(projectId).catch(error => console.error("Failed to delete project:", error));
+  };
+
+  return (
+    <Sidebar>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Projects</SidebarGroupLabel>
+          <SidebarGroupAction title="Add project" onClick={() => setIsAdding(true)}>
+            <Plus />
+            <span className="sr-only">Add project</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {projects.map(project => (
+                <SidebarMenuItem key={project.id}>
+                  {renamingId === project.id ? (
+                    <ProjectNameInput
+                      initialName={project.name}
+                      label={`Rename ${project.name}`}
+                      onSubmit={(name) => renameProject(project.id, name)}
+                      onDone={() => setRenamingId(null)}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton asChild>
+                        <NavLink to={projectPath(project.id)} className="aria-[current=page]:bg-sidebar-accent aria-[current=page]:font-medium">
+                          {project.id === DEFAULT_PROJECT_ID ? <Inbox /> : <Folder />}
+                          <span>{project.name}</span>
+                        </NavLink>
+                      </SidebarMenuButton>
+                      <SidebarMenuBadge>{openCount(project.id) || null}</SidebarMenuBadge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                            <span className="sr-only">Project options for {project.name}</span>
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => setRenamingId(project.id)}>Rename</DropdownMenuItem>
+                          {project.id !== DEFAULT_PROJECT_ID && (
+                            <DropdownMenuItem onSelect={() => handleRemove(project.id)}>
+                              Delete (tasks move to Inbox)
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+              {isAdding && (
+                <SidebarMenuItem>
+                  <ProjectNameInput
+                    label="New project name"
+                    onSubmit={(name) => navigate(projectPath(addProject(name).id))}
+                    onDone={() => setIsAdding(false)}
+                  />
+                </SidebarMenuItem>
+              )}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarGroup className="mt-auto">
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild>
+                  <NavLink to={TRASH_PATH} className="aria-[current=page]:bg-sidebar-accent aria-[current=page]:font-medium">
+                    <Trash2 />
+                    <span>Trash</span>
+                  </NavLink>
+                </SidebarMenuButton>
+                <SidebarMenuBadge>{trashedTasks.length || null}</SidebarMenuBadge>
+              </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton onClick={() => setImportExportOpen(true)}>
+                  <ArrowDownUp />
+                  <span>Import / export</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarRail />
+      <ImportExportDialog open={importExportOpen} onOpenChange={setImportExportOpen} />
+    </Sidebar>
+  );
+};
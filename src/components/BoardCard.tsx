@@ -0,0 +1,85 @@
+import { Calendar, GripVertical, ListChecks, Repeat } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { TagBadge } from "@/components/TagBadge";
+import { useTags } from "@/hooks/useTags";
+import { resolveTags } from "@/lib/tags";
+import { getSubtaskProgress } from "@/lib/subtasks";
+import { describeRecurrence } from "@/lib/recurrence";
+import { formatPriority, priorityVariantMap } from "@/lib/badges";
+import { formatDue } from "@/lib/dueDates";
+import { cn } from "@/lib/utils";
+import type { Task } from "@/types/Task";
+
+interface BoardCardProps {
+  task: Task;
+  isDragging?: boolean;
+  // Spread onto the drag handle; the board owns all drag state
+  handleProps: React.ButtonHTMLAttributes<HTMLButtonElement>;
+}
+
+// Compact task card for board columns
+export const BoardCard = ({ task, isDragging, handleProps }: BoardCardProps) => {
+  const { tags } = useTags();
+  const taskTags = resolveTags(tags, task.tags);
+  const progress = getSubtaskProgress(task.subtasks);
+
+  return (
+    <Card
+      data-task-id={task.id}
+      className={cn("flex gap-2 p-3 transition-shadow hover:shadow-md", isDragging && "opacity-60 ring-2 ring-primary")}
+    >
+      <button
+        type="button"
+        className={cn(
+          "flex w-5 shrink-0 items-start justify-center rounded-md pt-0.5 text-muted-foreground touch-none",
+          "hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+          isDragging ? "cursor-grabbing" : "cursor-grab"
+        )}
+        aria-label={`Move ${task.title}`}
+        aria-pressed={isDragging}
+        {...handleProps}
+      >
+        <GripVertical className="w-4 h-4" />
+      </button>
+      <div className="min-w-0 flex-1 space-y-2">
+        <div className="flex items-start justify-between gap-2">
+          <p className={cn("text-sm font-medium break-words", task.completed && "line-through text-muted-foreground")}>
+            {task.title}
+          </p>
+          <Badge variant={priorityVariantMap[task.priority]} className="shrink-0 border text-[10px] px-1.5">
+            {formatPriority(task.priority)}
+          </Badge>
+        </div>
+        {taskTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {taskTags.map(tag => (
+              <TagBadge key={tag.id} tag={tag} className="text-[10px] px-1.5" />
+            ))}
+          </div>
+        )}
+        {(task.dueDate || task.recurrence || progress.total > 0) && (
+          <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {task.dueDate && (
+              <span className="flex items-center gap-1">
+                <Calendar className="w-3 h-3" />
+                {formatDue(task)}
+              </span>
+            )}
+            {task.recurrence && (
+              <span className="flex items-center gap-1" title={describeRecurrence(task.recurrence)}>
+                <Repeat className="w-3 h-3" aria-label={describeRecurrence(task.recurrence)} />
+              </span>
+            )}
+            {progress.total > 0 && (
+              <span className="flex items-center gap-1">
+                <ListChecks className="w-3 h-3" />
+                {progress.done}/{progress.total}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
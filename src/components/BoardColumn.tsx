@@ -0,0 +1,140 @@
+import { Fragment, type ReactNode } from "react";
+import { ChevronsLeftRight, ChevronsRightLeft, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { WIP_LIMIT_MAX, type BoardColumnConfig } from "@/types/Board";
+import type { Task } from "@/types/Task";
+import type { WorkflowStatus } from "@/types/Workflow";
+
+interface BoardColumnProps {
+  status: WorkflowStatus;
+  tasks: Task[];
+  config: BoardColumnConfig;
+  onConfigChange: (changes: Partial<BoardColumnConfig>) => void;
+  // Where the card being dragged would land, or null when it isn't over this column
+  dropIndex: number | null;
+  // True while a card is dragged that the workflow doesn't allow into this column
+  disallowed?: boolean;
+  renderCard: (task: Task) => ReactNode;
+}
+
+const DropIndicator = () => <div className="h-1 rounded-full bg-primary" aria-hidden="true" />;
+
+export const BoardColumn = ({
+  status,
+  tasks,
+  config,
+  onConfigChange,
+  dropIndex,
+  disallowed,
+  renderCard,
+}: BoardColumnProps) => {
+  const label = status.name;
+  const overLimit = config.wipLimit !== undefined && tasks.length > config.wipLimit;
+  const count = config.wipLimit !== undefined ? `${tasks.length}/${config.wipLimit}` : `${tasks.length}`;
+
+  if (config.collapsed) {
+    return (
+      <section
+        data-status={status.id}
+        aria-label={`${label}, collapsed`}
+        className={cn(
+          "flex w-12 shrink-0 flex-col items-center gap-3 rounded-lg border bg-muted/40 py-3 transition-opacity",
+          disallowed && "opacity-40",
+          dropIndex !== null && "ring-2 ring-primary",
+          overLimit && "border-destructive"
+        )}
+      >
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-8 w-8"
+          onClick={() => onConfigChange({ collapsed: false })}
+          aria-label={`Expand ${label}`}
+        >
+          <ChevronsLeftRight className="w-4 h-4" />
+        </Button>
+        <span className={cn("text-xs font-medium", overLimit && "text-destructive")}>{count}</span>
+        <span className="text-sm font-semibold [writing-mode:vertical-rl]">{label}</span>
+      </section>
+    );
+  }
+
+  return (
+    <section
+      data-status={status.id}
+      aria-label={label}
+      className={cn(
+        "flex w-72 shrink-0 flex-col rounded-lg border bg-muted/40 transition-opacity",
+        disallowed && "opacity-40",
+        overLimit && "border-destructive bg-destructive/5"
+      )}
+    >
+      <header className="flex items-center gap-2 border-b px-3 py-2">
+        <h3 className="flex-1 text-sm font-semibold">{label}</h3>
+        <span
+          className={cn(
+            "rounded-full px-2 py-0.5 text-xs",
+            overLimit ? "bg-destructive text-destructive-foreground" : "bg-muted text-muted-foreground"
+          )}
+          title={overLimit ? `Over the work-in-progress limit of ${config.wipLimit}` : undefined}
+        >
+          {count}
+        </span>
+        {status.category !== "done" && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button size="icon" variant="ghost" className="h-7 w-7" aria-label={`${label} settings`}>
+                <Settings2 className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-56 space-y-2" align="end">
+              <Label htmlFor={`wip-limit-${status.id}`}>Work-in-progress limit</Label>
+              <Input
+                id={`wip-limit-${status.id}`}
+                type="number"
+                min={1}
+                max={WIP_LIMIT_MAX}
+                placeholder="No limit"
+                value={config.wipLimit ?? ""}
+                onChange={(e) => {
+                  const limit = Number(e.target.value);
+                  if (e.target.value === "") {
+                    onConfigChange({ wipLimit: undefined });
+                  } else if (Number.isInteger(limit) && limit >= 1 && limit <= WIP_LIMIT_MAX) {
+                    onConfigChange({ wipLimit: limit });
+                  }
+                }}
+              />
+              <p className="text-xs text-muted-foreground">The column is flagged when it holds more tasks than this.</p>
+            </PopoverContent>
+          </Popover>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => onConfigChange({ collapsed: true })}
+          aria-label={`Collapse ${label}`}
+        >
+          <ChevronsRightLeft className="w-4 h-4" />
+        </Button>
+      </header>
+      <ol className="flex min-h-24 flex-1 flex-col gap-2 p-2">
+        {tasks.map((task, index) => (
+          <Fragment key={task.id}>
+            {dropIndex === index && <DropIndicator />}
+            <li>{renderCard(task)}</li>
+          </Fragment>
+        ))}
+        {dropIndex !== null && dropIndex >= tasks.length && <DropIndicator />}
+        {tasks.length === 0 && dropIndex === null && (
+          <li className="py-6 text-center text-xs text-muted-foreground">No tasks</li>
+        )}
+      </ol>
+    </section>
+  );
+};
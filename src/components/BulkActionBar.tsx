@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { CalendarDays, CheckCircle2, Flag, FolderInput, Tags, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TagBadge } from "@/components/TagBadge";
+import { useProjects } from "@/hooks/useProjects";
+import { useTags } from "@/hooks/useTags";
+import { useTaskActions } from "@/hooks/useTaskActions";
+import { formatPriority } from "@/lib/badges";
+import { fromDayKey, rescheduleDueDate, toDayKey } from "@/lib/dueDates";
+import { completionChanges } from "@/lib/subtasks";
+import { prioritySchema, type Task } from "@/types/Task";
+
+interface BulkActionBarProps {
+  // The selected tasks, in list order
+  tasks: Task[];
+  // How many tasks the current search and filters match
+  matchingCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+// Actions on every selected task at once. Each one is saved as a single
+// batch and undone with a single Ctrl+Z.
+export const BulkActionBar = ({ tasks, matchingCount, onSelectAll, onClear }: BulkActionBarProps) => {
+  const { saveBulkChanges, moveTasksToProject, deleteTasks } = useTaskActions();
+  const { projects } = useProjects();
+  const { tags } = useTags();
+  const [dueDateOpen, setDueDateOpen] = useState(false);
+  const carriedTags = tags.filter(tag => tasks.some(task => task.tags?.includes(tag.id)));
+  const otherProjects = projects.filter(project => tasks.some(task => task.projectId !== project.id));
+
+  const report = (action: string) => (error: unknown) => console.error(`Failed to ${action}:`, error);
+
+  const handleComplete = () => {
+    const open = tasks.filter(task => !task.completed);
+    saveBulkChanges("Complete tasks", open, task => completionChanges(task, true)).catch(report("complete tasks"));
+  };
+
+  const handlePriority = (priority: Task["priority"]) => {
+    saveBulkChanges("Change priority", tasks, () => ({ priority })).catch(report("change priority"));
+  };
+
+  const handleAddTag = (tagId: string) => {
+    const untagged = tasks.filter(task => !task.tags?.includes(tagId));
+    saveBulkChanges("Add tag", untagged, task => ({ tags: [...(task.tags ?? []), tagId] })).catch(report("add tag"));
+  };
+
+  const handleRemoveTag = (tagId: string) => {
+    const tagged = tasks.filter(task => task.tags?.includes(tagId));
+    saveBulkChanges("Remove tag", tagged, task => ({ tags: task.tags.filter(id => id !== tagId) })).catch(
+      report("remove tag")
+    );
+  };
+
+  // Timed tasks keep their time of day and zone
+  const handleDueDate = (date: Date | undefined) => {
+    if (!date) return;
+    const day = toDayKey(date);
+    saveBulkChanges("Reschedule tasks", tasks, task => ({ dueDate: rescheduleDueDate(task, day) })).catch(
+      report("reschedule tasks")
+    );
+    setDueDateOpen(false);
+  };
+
+  // Reminders count back from the due time, so they go too
+  const handleClearDueDate = () => {
+    saveBulkChanges("Clear due dates", tasks, () => ({
+      dueDate: undefined,
+      dueTime: undefined,
+      timeZone: undefined,
+      reminders: undefined,
+    })).catch(report("clear due dates"));
+    setDueDateOpen(false);
+  };
+
+  // Moved and trashed tasks leave the list, so the selection goes with them
+  const handleMove = (projectId: string) => {
+    moveTasksToProject(tasks.filter(task => task.projectId !== projectId), projectId).catch(report("move tasks"));
+    onClear();
+  };
+
+  const handleDelete = () => {
+    deleteTasks(tasks).catch(report("delete tasks"));
+    onClear();
+  };
+
+  // Pre-selects the day when every selected task shares one
+  const sharedDueDate = tasks.every(task => task.dueDate && task.dueDate === tasks[0].dueDate)
+    ? fromDayKey(tasks[0].dueDate)
+    : undefined;
+
+  return (
+    <div
+      className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-lg border border-border bg-card p-2 shadow-md animate-in fade-in"
+      role="toolbar"
+      aria-label="Bulk actions"
+    >
+      <span className="px-2 text-sm font-medium">{tasks.length} selected</span>
+      {tasks.length < matchingCount && (
+        <Button size="sm" variant="link" onClick={onSelectAll}>
+          Select all {matchingCount} matching
+        </Button>
+      )}
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={handleComplete} disabled={tasks.every(task => task.completed)}>
+          <CheckCircle2 className="w-4 h-4 mr-2" />
+          Complete
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline">
+              <Flag className="w-4 h-4 mr-2" />
+              Priority
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Set priority</DropdownMenuLabel>
+            {prioritySchema.options.map(priority => (
+              <DropdownMenuItem key={priority} onSelect={() => handlePriority(priority)}>
+                {formatPriority(priority)}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button size="sm" variant="outline" disabled={tags.length === 0}>
+              <Tags className="w-4 h-4 mr-2" />
+              Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {tags.map(tag => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => handleAddTag(tag.id)}>
+                    <TagBadge tag={tag} />
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger disabled={carriedTags.length === 0}>Remove tag</DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {carriedTags.map(tag => (
+                  <DropdownMenuItem key={tag.id} onSelect={() => handleRemoveTag(tag.id)}>
+                    <TagBadge tag={tag} />
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {projects.length > 1 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <FolderInput className="w-4 h-4 mr-2" />
+                Move
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Move to project</DropdownMenuLabel>
+              {otherProjects.map(project => (
+                <DropdownMenuItem key={project.id} onSelect={() => handleMove(project.id)}>
+                  {project.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        <Popover open={dueDateOpen} onOpenChange={setDueDateOpen}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="outline">
+              <CalendarDays className="w-4 h-4 mr-2" />
+              Due date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="end">
+            <Calendar
+              mode="single"
+              selected={sharedDueDate}
+              onSelect={handleDueDate}
+              // Like the task form, rescheduling may not move a due date into the past
+              disabled={{ before: fromDayKey(toDayKey(new Date())) }}
+              initialFocus
+            />
+            <Separator />
+            <div className="p-2">
+              <Button size="sm" variant="ghost" className="w-full" onClick={handleClearDueDate}>
+                Clear due date
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button size="sm" variant="destructive" onClick={handleDelete}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Move to trash
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear} aria-label="Clear selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
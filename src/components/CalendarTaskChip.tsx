@@ -0,0 +1,74 @@
+import { GripVertical } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Priority, Task } from "@/types/Task";
+
+interface CalendarTaskChipProps {
+  task: Task;
+  isDragging?: boolean;
+  overdue?: boolean;
+  // Shown under the title, e.g. the due date in the overdue lane
+  detail?: string;
+  // Spread onto the drag handle; the calendar owns all drag state
+  handleProps: React.ButtonHTMLAttributes<HTMLButtonElement>;
+  // Lets the calendar keep focus on the handle as the chip moves between days
+  handleRef?: React.Ref<HTMLButtonElement>;
+  onOpen: (task: Task) => void;
+}
+
+const PRIORITY_BORDERS: Record<Priority, string> = {
+  high: "border-l-destructive",
+  medium: "border-l-primary",
+  low: "border-l-muted-foreground",
+};
+
+// One task in a calendar day: a drag handle to reschedule it and a title that opens the editor
+export const CalendarTaskChip = ({
+  task,
+  isDragging,
+  overdue,
+  detail,
+  handleProps,
+  handleRef,
+  onOpen,
+}: CalendarTaskChipProps) => (
+  <div
+    data-task-id={task.id}
+    className={cn(
+      "flex items-start rounded-md border border-l-4 bg-card text-xs shadow-sm",
+      PRIORITY_BORDERS[task.priority],
+      isDragging && "opacity-60 ring-2 ring-primary"
+    )}
+  >
+    <button
+      ref={handleRef}
+      type="button"
+      className={cn(
+        "flex shrink-0 items-center self-stretch rounded-sm px-0.5 text-muted-foreground touch-none",
+        "hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        isDragging ? "cursor-grabbing" : "cursor-grab"
+      )}
+      aria-label={`Reschedule ${task.title}`}
+      aria-pressed={isDragging}
+      {...handleProps}
+    >
+      <GripVertical className="w-3 h-3" />
+    </button>
+    <button
+      type="button"
+      className="min-w-0 flex-1 rounded-sm px-1 py-0.5 text-left hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      onClick={() => onOpen(task)}
+      title={task.title}
+    >
+      <span
+        className={cn(
+          "block truncate",
+          task.completed && "line-through text-muted-foreground",
+          overdue && "text-destructive"
+        )}
+      >
+        {task.title}
+      </span>
+      {detail && <span className="block text-[10px] text-muted-foreground">{detail}</span>}
+    </button>
+  </div>
+);
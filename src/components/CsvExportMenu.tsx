@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useImportExport } from "@/hooks/useImportExport";
+import { useLocalStore } from "@/hooks/useLocalStore";
+import { CSV_COLUMN_LABELS, csvColumnStore } from "@/lib/io/csv";
+import { csvColumnSchema, type CsvColumn } from "@/types/Csv";
+import type { Task } from "@/types/Task";
+
+interface CsvExportMenuProps {
+  // The tasks as the view shows them: filtered, searched and sorted
+  tasks: Task[];
+}
+
+export const CsvExportMenu = ({ tasks }: CsvExportMenuProps) => {
+  const { exportCsv } = useImportExport();
+  const selected = useLocalStore(csvColumnStore);
+  const [open, setOpen] = useState(false);
+  // Kept in the order of the column list, whatever order they were ticked in
+  const columns = csvColumnSchema.options.filter(column => selected.includes(column));
+
+  const toggleColumn = (column: CsvColumn, checked: boolean) =>
+    csvColumnStore.set(previous => (checked ? [...previous, column] : previous.filter(other => other !== column)));
+
+  const handleExport = () => {
+    exportCsv(tasks, columns);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" aria-label="Export as CSV">
+          <Download className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div>
+          <p className="text-sm font-medium">Export as CSV</p>
+          <p className="text-xs text-muted-foreground">The {tasks.length} tasks shown, with these columns:</p>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {csvColumnSchema.options.map(column => (
+            <div key={column} className="flex items-center gap-2">
+              <Checkbox
+                id={`csv-column-${column}`}
+                checked={selected.includes(column)}
+                onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+              />
+              <Label htmlFor={`csv-column-${column}`} className="font-normal">
+                {CSV_COLUMN_LABELS[column]}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <Button className="w-full" onClick={handleExport} disabled={columns.length === 0 || tasks.length === 0}>
+          Download CSV
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,141 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useProjects } from "@/hooks/useProjects";
+import {
+  CSV_FIELD_LABELS,
+  formatDateExample,
+  type CsvField,
+  type CsvImportOptions,
+  type CsvRowError,
+} from "@/lib/io/csv";
+
+interface CsvImportFieldsProps {
+  rows: string[][];
+  options: CsvImportOptions;
+  onChange: (options: CsvImportOptions) => void;
+  rowErrors: CsvRowError[];
+}
+
+// Select values can't be empty, so a skipped field gets its own
+const SKIP = "skip";
+
+// The browser's locale first, then a few common date orders
+const DATE_LOCALES = [
+  ...new Set([navigator.language, "en-US", "en-GB", "de-DE", "fr-FR", "ja-JP"]),
+];
+
+// The column-mapping step of a CSV import, with the rows that won't import
+export const CsvImportFields = ({ rows, options, onChange, rowErrors }: CsvImportFieldsProps) => {
+  const { projects } = useProjects();
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const columnName = (index: number) =>
+    options.hasHeader && rows[0]?.[index]?.trim() ? rows[0][index] : `Column ${index + 1}`;
+  const setMapping = (field: CsvField, value: string) =>
+    onChange({ ...options, mapping: { ...options.mapping, [field]: value === SKIP ? null : Number(value) } });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="csv-project">Import into</Label>
+          <Select value={options.projectId} onValueChange={(projectId) => onChange({ ...options, projectId })}>
+            <SelectTrigger id="csv-project">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="csv-locale">Dates are written like</Label>
+          <Select value={options.locale} onValueChange={(locale) => onChange({ ...options, locale })}>
+            <SelectTrigger id="csv-locale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_LOCALES.map(locale => (
+                <SelectItem key={locale} value={locale}>
+                  {formatDateExample(locale)} ({locale})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="csv-header"
+          checked={options.hasHeader}
+          onCheckedChange={(checked) => onChange({ ...options, hasHeader: checked === true })}
+        />
+        <Label htmlFor="csv-header" className="font-normal">
+          The first row holds column names
+        </Label>
+      </div>
+
+      <fieldset className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <legend className="text-sm font-medium mb-2">Columns</legend>
+        {(Object.keys(CSV_FIELD_LABELS) as CsvField[]).map(field => (
+          <div key={field} className="flex items-center gap-2">
+            <Label htmlFor={`csv-field-${field}`} className="w-24 shrink-0 font-normal">
+              {CSV_FIELD_LABELS[field]}
+            </Label>
+            <Select
+              value={options.mapping[field] === null ? SKIP : String(options.mapping[field])}
+              onValueChange={(value) => setMapping(field, value)}
+            >
+              <SelectTrigger id={`csv-field-${field}`} className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {field !== "title" && <SelectItem value={SKIP}>Don't import</SelectItem>}
+                {Array.from({ length: width }, (_, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {columnName(index)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </fieldset>
+
+      {rowErrors.length > 0 && (
+        <div className="max-h-48 overflow-y-auto rounded-md border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-14">Line</TableHead>
+                <TableHead>Title</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rowErrors.map(({ row, cells, errors }) => (
+                <TableRow key={row}>
+                  <TableCell>{row}</TableCell>
+                  <TableCell className="max-w-[10rem] truncate">
+                    {options.mapping.title === null ? "" : cells[options.mapping.title]}
+                  </TableCell>
+                  <TableCell className="text-destructive">
+                    {errors.map(error => (
+                      <p key={error}>{error}</p>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
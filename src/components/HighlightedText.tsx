@@ -0,0 +1,44 @@
+import { Fragment } from "react";
+import type { MatchRange } from "@/lib/search/searchIndex";
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+}
+
+// Sorts ranges and joins any that overlap or touch
+const mergeRanges = (ranges: MatchRange[]) =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+export const HighlightedText = ({ text, ranges }: HighlightedTextProps) => {
+  if (!ranges?.length) return <>{text}</>;
+
+  let cursor = 0;
+  const parts = mergeRanges(ranges).map(({ start, end }) => {
+    const before = text.slice(cursor, start);
+    cursor = end;
+    return (
+      <Fragment key={start}>
+        {before}
+        <mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-500/40">{text.slice(start, end)}</mark>
+      </Fragment>
+    );
+  });
+
+  return (
+    <>
+      {parts}
+      {text.slice(cursor)}
+    </>
+  );
+};
@@ -0,0 +1,279 @@
+import { useMemo, useState } from "react";
+import { CalendarDays, Download, FileText, ListChecks, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/sonner";
+import { useImportExport } from "@/hooks/useImportExport";
+import {
+  CONFLICT_STRATEGY_LABELS,
+  planImport,
+  type ConflictStrategy,
+  type ImportData,
+  type ImportOutcome,
+  type Workspace,
+} from "@/lib/io/importPlan";
+import { parseWorkspaceFile } from "@/lib/io/json";
+import { csvToImportData, guessColumnMapping, parseCsv, type CsvImportOptions, type CsvTable } from "@/lib/io/csv";
+import { parseIcs } from "@/lib/io/ics";
+import { parseMarkdown } from "@/lib/io/markdown";
+import { parseTodoTxt } from "@/lib/io/todoTxt";
+import { DEFAULT_PROJECT_ID } from "@/lib/projects";
+import { CsvImportFields } from "@/components/CsvImportFields";
+
+interface ImportExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A read import file, with the workspace as it was when the file was picked.
+// CSV rows are turned into tasks once their columns are mapped.
+type ImportSource = { filename: string; workspace: Workspace } & (
+  | { format: "json" | "ics" | "markdown" | "todo-txt"; data: ImportData }
+  | { format: "csv"; table: CsvTable }
+);
+
+const hasExtension = (file: File, extension: string, type: string) =>
+  file.name.toLowerCase().endsWith(extension) || file.type === type;
+
+const OUTCOME_BADGES: Record<ImportOutcome, { label: string; variant: "success" | "warning" | "secondary" }> = {
+  add: { label: "Add", variant: "success" },
+  update: { label: "Update", variant: "warning" },
+  skip: { label: "Skip", variant: "secondary" },
+};
+
+const countTasks = (count: number) => `${count} ${count === 1 ? "task" : "tasks"}`;
+
+export const ImportExportDialog = ({ open, onOpenChange }: ImportExportDialogProps) => {
+  const { readWorkspace, exportJson, exportIcs, exportMarkdown, exportTodoTxt, applyImport } = useImportExport();
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [strategy, setStrategy] = useState<ConflictStrategy>("skip");
+  const [isImporting, setIsImporting] = useState(false);
+  const [csvOptions, setCsvOptions] = useState<CsvImportOptions | null>(null);
+
+  const csv = useMemo(
+    () => (source?.format === "csv" ? csvToImportData(source.table, csvOptions, source.workspace) : null),
+    [source, csvOptions]
+  );
+  const data = source?.format === "csv" ? csv?.data : source?.data;
+  const plan = useMemo(
+    () => (data ? planImport(data, source.workspace, strategy) : null),
+    [data, source, strategy]
+  );
+  const count = (outcome: ImportOutcome) => plan?.entries.filter(entry => entry.outcome === outcome).length ?? 0;
+  const conflicts = data ? data.tasks.filter(task => source.workspace.tasks.some(existing => existing.id === task.id)).length : 0;
+  const hasChanges = Boolean(plan && (plan.operations.length > 0 || plan.projects.length > 0 || plan.tags.length > 0));
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setSource(null);
+      setError(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleExport = (run: () => Promise<void>) => {
+    run().catch(error => {
+      console.error("Failed to export tasks:", error);
+      toast.error("Export failed");
+    });
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setSource(null);
+    setError(null);
+    if (!file) return;
+    const text = await file.text();
+    if (hasExtension(file, ".ics", "text/calendar")) {
+      const workspace = await readWorkspace();
+      const data = parseIcs(text, workspace);
+      if (!data) {
+        setError("The file isn't an iCalendar file.");
+        return;
+      }
+      setSource({ format: "ics", filename: file.name, data, workspace });
+      return;
+    }
+    // Plain-text tasks land in the Inbox unless they name a project
+    if (hasExtension(file, ".md", "text/markdown") || file.name.toLowerCase().endsWith(".markdown")) {
+      const workspace = await readWorkspace();
+      const data = parseMarkdown(text, { workspace, projectId: DEFAULT_PROJECT_ID });
+      setSource({ format: "markdown", filename: file.name, data, workspace });
+      return;
+    }
+    if (hasExtension(file, ".txt", "text/plain")) {
+      const workspace = await readWorkspace();
+      const data = parseTodoTxt(text, { workspace, projectId: DEFAULT_PROJECT_ID });
+      setSource({ format: "todo-txt", filename: file.name, data, workspace });
+      return;
+    }
+    if (hasExtension(file, ".csv", "text/csv")) {
+      const table = parseCsv(text);
+      if (table.rows.length === 0) {
+        setError("The file has no rows.");
+        return;
+      }
+      setCsvOptions({
+        mapping: guessColumnMapping(table.rows[0]),
+        hasHeader: true,
+        locale: navigator.language,
+        projectId: DEFAULT_PROJECT_ID,
+      });
+      setSource({ format: "csv", filename: file.name, table, workspace: await readWorkspace() });
+      return;
+    }
+    const result = parseWorkspaceFile(text);
+    if (result.success === false) {
+      setError(result.error);
+      return;
+    }
+    setSource({ format: "json", filename: file.name, data: result.data, workspace: await readWorkspace() });
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await applyImport(plan);
+      toast.success(`Imported ${countTasks(count("add") + count("update"))}`, {
+        description: "Press Ctrl+Z to undo the import.",
+      });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error("Failed to import tasks:", error);
+      toast.error("Import failed", { description: "Nothing was imported." });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import and export</DialogTitle>
+          <DialogDescription>
+            Export saves every task, project and tag to a JSON file. Import one to bring them back or to merge
+            another workspace into this one. Tasks can also come from a spreadsheet saved as CSV, or from calendar
+            and to-do apps as iCalendar (.ics), which land in the Inbox, or from Markdown checklists and todo.txt
+            files.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => handleExport(exportJson)}>
+            <Download className="w-4 h-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button variant="outline" onClick={() => handleExport(exportIcs)}>
+            <CalendarDays className="w-4 h-4 mr-2" />
+            Export calendar (.ics)
+          </Button>
+          <Button variant="outline" onClick={() => handleExport(exportMarkdown)}>
+            <ListChecks className="w-4 h-4 mr-2" />
+            Export Markdown
+          </Button>
+          <Button variant="outline" onClick={() => handleExport(exportTodoTxt)}>
+            <FileText className="w-4 h-4 mr-2" />
+            Export todo.txt
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="import-file">Import a JSON export, a CSV, iCalendar or Markdown file, or a todo.txt file</Label>
+          <Input
+            id="import-file"
+            type="file"
+            accept=".json,application/json,.csv,text/csv,.ics,text/calendar,.md,.markdown,text/markdown,.txt,text/plain"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]).catch(error => {
+                console.error("Failed to read import file:", error);
+                setError("The file couldn't be read.");
+              });
+            }}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        {source?.format === "csv" && (
+          <CsvImportFields rows={source.table.rows} options={csvOptions} onChange={setCsvOptions} rowErrors={csv.rowErrors} />
+        )}
+
+        {plan && (
+          <div className="space-y-4">
+            {conflicts > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  {countTasks(conflicts)} already in this workspace. For those:
+                </p>
+                <RadioGroup value={strategy} onValueChange={(value: ConflictStrategy) => setStrategy(value)}>
+                  {(Object.keys(CONFLICT_STRATEGY_LABELS) as ConflictStrategy[]).map(option => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`import-strategy-${option}`} />
+                      <Label htmlFor={`import-strategy-${option}`} className="font-normal">
+                        {CONFLICT_STRATEGY_LABELS[option]}
+                      </Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground" aria-live="polite">
+              {source.filename}: {count("add")} to add, {count("update")} to update, {count("skip")} skipped
+              {plan.rejected.length > 0 && `, ${plan.rejected.length} invalid`}.
+              {(plan.projects.length > 0 || plan.tags.length > 0) &&
+                ` Also adds ${plan.projects.length} ${plan.projects.length === 1 ? "project" : "projects"} and ${plan.tags.length} ${plan.tags.length === 1 ? "tag" : "tags"}.`}
+            </p>
+
+            {(plan.entries.length > 0 || (source.format !== "csv" && plan.rejected.length > 0)) && (
+              <ul className="max-h-64 overflow-y-auto space-y-1 rounded-md border border-border p-2 text-sm" aria-label="Import preview">
+                {plan.entries.map((entry, index) => (
+                  <li key={`${entry.task.id}-${index}`} className="flex items-center gap-2">
+                    <Badge variant={OUTCOME_BADGES[entry.outcome].variant} className="w-16 justify-center">
+                      {OUTCOME_BADGES[entry.outcome].label}
+                    </Badge>
+                    <span className="truncate flex-1">{entry.task.title}</span>
+                    {entry.reason && <span className="text-xs text-muted-foreground shrink-0">{entry.reason}</span>}
+                  </li>
+                ))}
+                {/* CSV rows that won't import are listed with the column mapping */}
+                {source.format !== "csv" && plan.rejected.map((rejected, index) => (
+                  <li key={`rejected-${index}`} className="flex items-center gap-2">
+                    <Badge variant="destructive" className="w-16 justify-center">
+                      Invalid
+                    </Badge>
+                    <span className="truncate flex-1 text-muted-foreground">{rejected.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleImport} disabled={!hasChanges || isImporting}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import { ClipboardPaste } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/sonner";
+import { useImportExport } from "@/hooks/useImportExport";
+import { planImport, type Workspace } from "@/lib/io/importPlan";
+import { parsePlainText } from "@/lib/io/markdown";
+import { flattenSubtasks } from "@/lib/subtasks";
+
+interface PasteTasksDialogProps {
+  // Where the tasks go unless a line names another project
+  projectId: string;
+}
+
+const countTasks = (count: number) => `${count} ${count === 1 ? "task" : "tasks"}`;
+
+export const PasteTasksDialog = ({ projectId }: PasteTasksDialogProps) => {
+  const { readWorkspace, applyImport } = useImportExport();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Pasted tasks get new ids, so none of them conflict with existing ones
+  const plan = useMemo(
+    () => (workspace && text.trim() ? planImport(parsePlainText(text, { workspace, projectId }), workspace, "skip") : null),
+    [text, workspace, projectId]
+  );
+  const tasks = plan?.entries.map(entry => entry.task) ?? [];
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    setText("");
+    setWorkspace(null);
+    if (next) {
+      readWorkspace()
+        .then(setWorkspace)
+        .catch(error => console.error("Failed to load tasks:", error));
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      await applyImport(plan);
+      toast.success(`Added ${countTasks(tasks.length)}`, { description: "Press Ctrl+Z to undo." });
+      handleOpenChange(false);
+    } catch (error) {
+      console.error("Failed to add pasted tasks:", error);
+      toast.error("Couldn't add the tasks", { description: "Nothing was added." });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => handleOpenChange(true)} aria-label="Paste tasks">
+        <ClipboardPaste className="w-4 h-4" />
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Paste tasks</DialogTitle>
+            <DialogDescription>
+              One task per line, as a Markdown checklist or in todo.txt format. Nested list items become subtasks;
+              priorities, due dates and tags are picked up as well.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="paste-tasks">Tasks</Label>
+            <Textarea
+              id="paste-tasks"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={"- [ ] Book flights !high #travel due:2026-11-01\n  - [ ] Compare prices\n(A) Call the bank @phone"}
+              className="min-h-[10rem] font-mono text-sm"
+              autoFocus
+            />
+          </div>
+
+          {plan && (tasks.length > 0 || plan.rejected.length > 0) && (
+            <ul className="max-h-64 overflow-y-auto space-y-1 rounded-md border border-border p-2 text-sm" aria-label="Pasted tasks">
+              {tasks.map(task => (
+                <li key={task.id} className="flex items-center gap-2">
+                  <span className="truncate flex-1">{task.title}</span>
+                  {task.subtasks?.length > 0 && (
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {flattenSubtasks(task.subtasks).length} subtasks
+                    </span>
+                  )}
+                </li>
+              ))}
+              {plan.rejected.map((rejected, index) => (
+                <li key={`rejected-${index}`} className="flex items-center gap-2">
+                  <Badge variant="destructive" className="w-16 justify-center">
+                    Invalid
+                  </Badge>
+                  <span className="truncate flex-1 text-muted-foreground">{rejected.reason}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={tasks.length === 0 || isAdding}>
+              Add {countTasks(tasks.length)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,37 @@
+import { NavLink } from "react-router-dom";
+import { CalendarDays, KanbanSquare, List } from "lucide-react";
+import { projectBoardPath, projectCalendarPath, projectPath } from "@/lib/projects";
+import { cn } from "@/lib/utils";
+
+interface ProjectViewTabsProps {
+  projectId: string;
+}
+
+const VIEWS = [
+  { label: "List", icon: List, path: projectPath },
+  { label: "Board", icon: KanbanSquare, path: projectBoardPath },
+  { label: "Calendar", icon: CalendarDays, path: projectCalendarPath },
+];
+
+export const ProjectViewTabs = ({ projectId }: ProjectViewTabsProps) => (
+  <nav className="inline-flex h-10 items-center rounded-md bg-muted p-1 text-muted-foreground" aria-label="Project views">
+    {VIEWS.map(({ label, icon: Icon, path }) => (
+      <NavLink
+        key={label}
+        to={path(projectId)}
+        // The list path is a prefix of the other views' paths, so match it exactly
+        end
+        className={({ isActive }) =>
+          cn(
+            "inline-flex items-center gap-1.5 rounded-sm px-3 py-1.5 text-sm font-medium transition-all",
+            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+            isActive && "bg-background text-foreground shadow-sm"
+          )
+        }
+      >
+        <Icon className="w-4 h-4" />
+        {label}
+      </NavLink>
+    ))}
+  </nav>
+);
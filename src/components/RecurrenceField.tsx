@@ -0,0 +1,158 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  formatRule,
+  parseRule,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence";
+import type { Recurrence } from "@/types/Task";
+
+type RepeatMode = "none" | "daily" | "weekly" | "monthly" | "afterCompletion" | "custom";
+
+interface RecurrenceFieldProps {
+  value?: Recurrence;
+  onChange: (recurrence: Recurrence | undefined) => void;
+  // Used to pick sensible defaults (weekday, day of month) when switching modes
+  dueDate?: string;
+  id?: string;
+}
+
+const MODE_LABELS: Record<Exclude<RepeatMode, "custom">, string> = {
+  none: "Does not repeat",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+  afterCompletion: "Days after completion",
+};
+
+const UNIT_LABELS: Partial<Record<RepeatMode, string>> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+  afterCompletion: "day(s) after completion",
+};
+
+const readRule = (value?: Recurrence): { mode: RepeatMode; rule?: RecurrenceRule } => {
+  if (!value) return { mode: "none" };
+  try {
+    const rule = parseRule(value.rule);
+    if (value.fromCompletion && rule.freq === "DAILY") return { mode: "afterCompletion", rule };
+    // Rules imported from other tools may use options this editor cannot show
+    if (value.fromCompletion || rule.freq === "YEARLY" || rule.count || rule.until) return { mode: "custom", rule };
+    return { mode: rule.freq.toLowerCase() as RepeatMode, rule };
+  } catch {
+    return { mode: "custom" };
+  }
+};
+
+const referenceDate = (dueDate?: string) => (dueDate ? new Date(`${dueDate.substring(0, 10)}T00:00:00`) : new Date());
+
+export const RecurrenceField = ({ value, onChange, dueDate, id }: RecurrenceFieldProps) => {
+  const { mode, rule } = readRule(value);
+
+  const update = (next: RecurrenceRule, fromCompletion = false) =>
+    onChange({ rule: formatRule(next), ...(fromCompletion && { fromCompletion }) });
+
+  const handleModeChange = (nextMode: RepeatMode) => {
+    const reference = referenceDate(dueDate);
+    switch (nextMode) {
+      case "none":
+        onChange(undefined);
+        break;
+      case "daily":
+        update({ freq: "DAILY", interval: 1 });
+        break;
+      case "weekly":
+        // getDay() is 0 for Sunday; WEEKDAYS starts on Monday
+        update({ freq: "WEEKLY", interval: 1, byDay: [WEEKDAYS[(reference.getDay() + 6) % 7]] });
+        break;
+      case "monthly":
+        update({ freq: "MONTHLY", interval: 1, byMonthDay: reference.getDate() });
+        break;
+      case "afterCompletion":
+        update({ freq: "DAILY", interval: 1 }, true);
+        break;
+    }
+  };
+
+  const handleIntervalChange = (interval: number) => {
+    if (rule && Number.isInteger(interval) && interval >= 1 && interval <= 365) {
+      update({ ...rule, interval }, mode === "afterCompletion");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Select value={mode} onValueChange={(next) => handleModeChange(next as RepeatMode)}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(MODE_LABELS).map(([option, label]) => (
+            <SelectItem key={option} value={option}>
+              {label}
+            </SelectItem>
+          ))}
+          {mode === "custom" && <SelectItem value="custom">{describeRecurrence(value)}</SelectItem>}
+        </SelectContent>
+      </Select>
+
+      {rule && mode !== "custom" && (
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor={`${id}-interval`}>Every</Label>
+          <Input
+            id={`${id}-interval`}
+            type="number"
+            min={1}
+            max={365}
+            value={rule.interval}
+            onChange={(e) => handleIntervalChange(Number(e.target.value))}
+            className="w-20 h-8"
+          />
+          <span className="text-muted-foreground">{UNIT_LABELS[mode]}</span>
+        </div>
+      )}
+
+      {rule && mode === "weekly" && (
+        <ToggleGroup
+          type="multiple"
+          value={rule.byDay ?? []}
+          onValueChange={(days: Weekday[]) => days.length > 0 && update({ ...rule, byDay: days })}
+          className="justify-start flex-wrap"
+          aria-label="Repeat on"
+        >
+          {WEEKDAYS.map(day => (
+            <ToggleGroupItem key={day} value={day} size="sm" aria-label={WEEKDAY_LABELS[day]}>
+              {WEEKDAY_LABELS[day].charAt(0)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {rule && mode === "monthly" && (
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor={`${id}-month-day`}>On day</Label>
+          <Input
+            id={`${id}-month-day`}
+            type="number"
+            min={1}
+            max={31}
+            value={rule.byMonthDay ?? 1}
+            onChange={(e) => {
+              const day = Number(e.target.value);
+              if (Number.isInteger(day) && day >= 1 && day <= 31) update({ ...rule, byMonthDay: day });
+            }}
+            className="w-20 h-8"
+          />
+          <span className="text-muted-foreground">of the month</span>
+        </div>
+      )}
+    </div>
+  );
+};
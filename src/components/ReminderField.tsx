@@ -0,0 +1,88 @@
+import { useState } from "react";
+import { Bell, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { describeReminder, requestNotificationPermission } from "@/lib/reminders";
+import { REMINDERS_MAX, REMINDER_MAX_MINUTES } from "@/types/Task";
+
+type ReminderUnit = "minutes" | "hours";
+
+interface ReminderFieldProps {
+  value: number[];
+  onChange: (reminders: number[]) => void;
+  // Reminders count back from the due time, so they need one
+  disabled?: boolean;
+  id?: string;
+}
+
+const UNIT_MINUTES: Record<ReminderUnit, number> = { minutes: 1, hours: 60 };
+
+export const ReminderField = ({ value, onChange, disabled, id }: ReminderFieldProps) => {
+  const [amount, setAmount] = useState("15");
+  const [unit, setUnit] = useState<ReminderUnit>("minutes");
+  const minutes = Number(amount) * UNIT_MINUTES[unit];
+  const isValid = amount !== "" && Number.isInteger(minutes) && minutes >= 0 && minutes <= REMINDER_MAX_MINUTES;
+
+  const handleAdd = () => {
+    if (!isValid || value.includes(minutes)) return;
+    requestNotificationPermission();
+    onChange([...value, minutes].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map(minutesBefore => (
+            <Badge key={minutesBefore} variant="secondary" className="gap-1 pr-1">
+              <Bell className="w-3 h-3" />
+              {describeReminder(minutesBefore)}
+              <button
+                type="button"
+                className="rounded-sm hover:bg-muted-foreground/20"
+                onClick={() => onChange(value.filter(candidate => candidate !== minutesBefore))}
+                aria-label={`Remove reminder ${describeReminder(minutesBefore).toLowerCase()}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          disabled={disabled || value.length >= REMINDERS_MAX}
+          className="w-20"
+          aria-label="Remind this long before the due time"
+        />
+        <Select value={unit} onValueChange={(next: ReminderUnit) => setUnit(next)} disabled={disabled}>
+          <SelectTrigger className="w-28" aria-label="Reminder unit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="minutes">minutes</SelectItem>
+            <SelectItem value="hours">hours</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">before</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={disabled || !isValid || value.length >= REMINDERS_MAX}
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { ArrowDown, ArrowDownUp, ArrowUp, ChevronDown, ChevronUp, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTaskSort } from "@/hooks/useTaskSort";
+import { DEFAULT_SORT_DIRECTIONS, SORT_FIELD_LABELS, describeSortKeys } from "@/lib/sorting";
+import { cn } from "@/lib/utils";
+import { SORT_PRESET_NAME_MAX_LENGTH, sortFieldSchema, type SortField, type SortKey } from "@/types/Sort";
+
+interface SortMenuProps {
+  projectId: string;
+}
+
+const sameKeys = (a: SortKey[], b: SortKey[]) =>
+  a.length === b.length && a.every((key, index) => key.field === b[index].field && key.direction === b[index].direction);
+
+export const SortMenu = ({ projectId }: SortMenuProps) => {
+  const { sortKeys, setSortKeys, presets, savePreset, applyPreset, removePreset } = useTaskSort(projectId);
+  const [presetName, setPresetName] = useState("");
+  const activePreset = presets.find(preset => sameKeys(preset.keys, sortKeys));
+  // Each field can only be used once in the chain
+  const unusedFields = sortFieldSchema.options.filter(field => !sortKeys.some(key => key.field === field));
+
+  const updateKey = (index: number, key: SortKey) => setSortKeys(sortKeys.map((existing, i) => (i === index ? key : existing)));
+
+  const moveKey = (index: number, offset: number) => {
+    const next = [...sortKeys];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setSortKeys(next);
+  };
+
+  const addKey = () => {
+    const field = unusedFields[0];
+    setSortKeys([...sortKeys, { field, direction: DEFAULT_SORT_DIRECTIONS[field] }]);
+  };
+
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (presetName.trim()) {
+      savePreset(presetName);
+      setPresetName("");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className={cn(sortKeys.length > 0 && "border-primary text-primary")}>
+          <ArrowDownUp className="w-4 h-4 mr-2" />
+          {activePreset?.name ?? "Sort"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-3" align="end">
+        <div>
+          <p className="text-sm font-medium">Sort by</p>
+          <p className="text-xs text-muted-foreground">{describeSortKeys(sortKeys)}</p>
+        </div>
+
+        <ol className="space-y-2">
+          {sortKeys.map((key, index) => (
+            <li key={key.field} className="flex items-center gap-1">
+              <span className="w-10 text-xs text-muted-foreground">{index === 0 ? "Sort" : "then"}</span>
+              <Select
+                value={key.field}
+                onValueChange={(field: SortField) => updateKey(index, { field, direction: DEFAULT_SORT_DIRECTIONS[field] })}
+              >
+                <SelectTrigger className="h-8 flex-1" aria-label={`Sort key ${index + 1}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[key.field, ...unusedFields].map(field => (
+                    <SelectItem key={field} value={field}>
+                      {SORT_FIELD_LABELS[field]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => updateKey(index, { ...key, direction: key.direction === "asc" ? "desc" : "asc" })}
+                aria-label={key.direction === "asc" ? "Ascending, switch to descending" : "Descending, switch to ascending"}
+              >
+                {key.direction === "asc" ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />}
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                disabled={index === 0}
+                onClick={() => moveKey(index, -1)}
+                aria-label="Move up"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                disabled={index === sortKeys.length - 1}
+                onClick={() => moveKey(index, 1)}
+                aria-label="Move down"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => setSortKeys(sortKeys.filter((_, i) => i !== index))}
+                aria-label={`Remove ${SORT_FIELD_LABELS[key.field]} sort`}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={addKey} disabled={unusedFields.length === 0}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add sort key
+          </Button>
+          {sortKeys.length > 0 && (
+            <Button size="sm" variant="ghost" onClick={() => setSortKeys([])}>
+              Reset
+            </Button>
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Presets</p>
+          {presets.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Save the current sort to reuse it later.</p>
+          ) : (
+            <ul className="space-y-1">
+              {presets.map(preset => (
+                <li key={preset.id} className="flex items-center gap-1">
+                  <Button
+                    size="sm"
+                    variant={preset.id === activePreset?.id ? "secondary" : "ghost"}
+                    className="flex-1 justify-start"
+                    onClick={() => applyPreset(preset.id)}
+                    title={describeSortKeys(preset.keys)}
+                  >
+                    {preset.name}
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => removePreset(preset.id)}
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleSavePreset} className="flex gap-2">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              maxLength={SORT_PRESET_NAME_MAX_LENGTH}
+              className="h-8"
+              aria-label="Preset name"
+            />
+            <Button type="submit" size="sm" disabled={!presetName.trim()}>
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </Button>
+          </form>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { GripVertical } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SortableListProps<T> {
+  items: T[];
+  getId: (item: T) => string;
+  // Name of the item used in screen reader announcements
+  getLabel: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  onReorder: (item: T, fromIndex: number, toIndex: number) => void;
+  // Explains why reordering is unavailable, e.g. while another sort is active
+  disabledReason?: string;
+  className?: string;
+}
+
+interface DragState {
+  id: string;
+  fromIndex: number;
+  overIndex: number;
+  mode: "pointer" | "keyboard";
+}
+
+// Midpoints of the items in page coordinates, measured once when a drag starts
+// so that the preview reordering doesn't feed back into hit testing
+const measureMidpoints = (elements: (HTMLElement | undefined)[]) =>
+  elements.map(element => {
+    const rect = element?.getBoundingClientRect();
+    return rect ? rect.top + window.scrollY + rect.height / 2 : 0;
+  });
+
+const moveItem = <T,>(items: T[], fromIndex: number, toIndex: number) => {
+  const next = [...items];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
+
+export const SortableList = <T,>({
+  items,
+  getId,
+  getLabel,
+  renderItem,
+  onReorder,
+  disabledReason,
+  className,
+}: SortableListProps<T>) => {
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const itemRefs = useRef(new Map<string, HTMLElement>());
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const midpoints = useRef<number[]>([]);
+
+  const preview = drag ? moveItem(items, drag.fromIndex, drag.overIndex) : items;
+  const position = (index: number) => `position ${index + 1} of ${items.length}`;
+
+  // The moved handle is re-inserted into the DOM on every step, so give focus back
+  useEffect(() => {
+    if (drag?.mode === "keyboard") {
+      handleRefs.current.get(drag.id)?.focus();
+    }
+  }, [drag]);
+
+  // Items can disappear mid-drag (e.g. deleted in another tab)
+  useEffect(() => {
+    const current = drag && items[drag.fromIndex];
+    if (drag && (!current || getId(current) !== drag.id)) {
+      setDrag(null);
+    }
+  }, [drag, items, getId]);
+
+  const finish = (state: DragState) => {
+    const item = items[state.fromIndex];
+    setDrag(null);
+    if (state.overIndex === state.fromIndex) {
+      setAnnouncement(`${getLabel(item)} dropped at its original ${position(state.fromIndex)}.`);
+      return;
+    }
+    setAnnouncement(`${getLabel(item)} dropped at ${position(state.overIndex)}.`);
+    onReorder(item, state.fromIndex, state.overIndex);
+  };
+
+  const cancel = (state: DragState) => {
+    setDrag(null);
+    setAnnouncement(`Reordering cancelled. ${getLabel(items[state.fromIndex])} returned to ${position(state.fromIndex)}.`);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLButtonElement>, index: number) => {
+    if (e.button !== 0 || drag) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    midpoints.current = measureMidpoints(items.map(item => itemRefs.current.get(getId(item))));
+    setDrag({ id: getId(items[index]), fromIndex: index, overIndex: index, mode: "pointer" });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLButtonElement>) => {
+    if (drag?.mode !== "pointer") return;
+    const pointerY = e.clientY + window.scrollY;
+    // The new index is the number of other items whose midpoint lies above the pointer
+    const overIndex = midpoints.current.filter((midpoint, index) => index !== drag.fromIndex && midpoint < pointerY).length;
+    if (overIndex !== drag.overIndex) {
+      setDrag({ ...drag, overIndex });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag?.mode === "pointer") finish(drag);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const item = items[index];
+    if (!drag) {
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        setDrag({ id: getId(item), fromIndex: index, overIndex: index, mode: "keyboard" });
+        setAnnouncement(
+          `${getLabel(item)} lifted, ${position(index)}. Use the up and down arrow keys to move, space to drop, escape to cancel.`
+        );
+      }
+      return;
+    }
+    if (drag.mode !== "keyboard") return;
+
+    const label = getLabel(items[drag.fromIndex]);
+    switch (e.key) {
+      case "ArrowUp":
+      case "ArrowDown": {
+        e.preventDefault();
+        const overIndex = Math.min(Math.max(drag.overIndex + (e.key === "ArrowUp" ? -1 : 1), 0), items.length - 1);
+        setDrag({ ...drag, overIndex });
+        setAnnouncement(`${label} moved to ${position(overIndex)}.`);
+        break;
+      }
+      case " ":
+      case "Enter":
+        e.preventDefault();
+        finish(drag);
+        break;
+      case "Escape":
+      case "Tab":
+        e.preventDefault();
+        cancel(drag);
+        break;
+    }
+  };
+
+  return (
+    <>
+      <ul className={cn("grid gap-4", className)} aria-describedby={disabledReason ? undefined : "sortable-list-instructions"}>
+        {preview.map(item => {
+          const id = getId(item);
+          const index = items.indexOf(item);
+          const isDragging = drag?.id === id;
+          return (
+            <li
+              key={id}
+              ref={element => (element ? itemRefs.current.set(id, element) : itemRefs.current.delete(id))}
+              className={cn(
+                "flex items-stretch gap-2 transition-opacity",
+                isDragging && "opacity-70 [&>div]:ring-2 [&>div]:ring-primary [&>div]:rounded-lg"
+              )}
+            >
+              <button
+                type="button"
+                ref={element => (element ? handleRefs.current.set(id, element) : handleRefs.current.delete(id))}
+                className={cn(
+                  "flex w-6 shrink-0 items-center justify-center rounded-md text-muted-foreground touch-none",
+                  "hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                  disabledReason ? "cursor-not-allowed opacity-40" : isDragging ? "cursor-grabbing" : "cursor-grab"
+                )}
+                aria-label={`Reorder ${getLabel(item)}`}
+                aria-pressed={isDragging}
+                aria-disabled={Boolean(disabledReason)}
+                title={disabledReason}
+                onPointerDown={disabledReason ? undefined : (e) => handlePointerDown(e, index)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => drag && cancel(drag)}
+                onKeyDown={disabledReason ? undefined : (e) => handleKeyDown(e, index)}
+              >
+                <GripVertical className="w-4 h-4" />
+              </button>
+              <div className="min-w-0 flex-1">{renderItem(item)}</div>
+            </li>
+          );
+        })}
+      </ul>
+      <p id="sortable-list-instructions" className="sr-only">
+        Press space or enter on a reorder handle to lift an item, then use the arrow keys to move it.
+      </p>
+      <div aria-live="assertive" role="status" className="sr-only">
+        {announcement}
+      </div>
+    </>
+  );
+};
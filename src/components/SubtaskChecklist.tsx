@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { CornerDownRight, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { TITLE_MAX_LENGTH, type Subtask } from "@/types/Task";
+import { MAX_SUBTASK_DEPTH, addSubtask, removeSubtask, toggleSubtask } from "@/lib/subtasks";
+import { cn } from "@/lib/utils";
+
+interface SubtaskChecklistProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  disabled?: boolean;
+}
+
+interface AddStepInputProps {
+  label: string;
+  onAdd: (title: string) => void;
+  onDone?: () => void;
+  autoFocus?: boolean;
+}
+
+const AddStepInput = ({ label, onAdd, onDone, autoFocus }: AddStepInputProps) => {
+  const [title, setTitle] = useState("");
+
+  const submit = () => {
+    if (title.trim()) {
+      onAdd(title);
+      setTitle("");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape") {
+            onDone?.();
+          }
+        }}
+        onBlur={() => !title.trim() && onDone?.()}
+        placeholder={label}
+        aria-label={label}
+        maxLength={TITLE_MAX_LENGTH}
+        autoFocus={autoFocus}
+        className="h-8 text-sm"
+      />
+      <Button type="button" size="sm" variant="ghost" onClick={submit} aria-label={label}>
+        <Plus className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
+export const SubtaskChecklist = ({ subtasks, onChange, disabled }: SubtaskChecklistProps) => {
+  const [addingTo, setAddingTo] = useState<string | null>(null);
+
+  const renderItems = (items: Subtask[], depth: number) => (
+    <ul className={cn("space-y-1", depth > 1 && "ml-6 border-l border-border pl-2")}>
+      {items.map(subtask => (
+        <li key={subtask.id} className="space-y-1">
+          <div className="group flex items-center gap-2 rounded-md px-1 py-0.5 hover:bg-muted/50">
+            <Checkbox
+              id={`subtask-${subtask.id}`}
+              checked={subtask.completed}
+              onCheckedChange={() => onChange(toggleSubtask(subtasks, subtask.id))}
+              disabled={disabled}
+            />
+            <label
+              htmlFor={`subtask-${subtask.id}`}
+              className={cn("flex-1 text-sm", subtask.completed && "line-through text-muted-foreground")}
+            >
+              {subtask.title}
+            </label>
+            {depth < MAX_SUBTASK_DEPTH && (
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 px-1 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                onClick={() => setAddingTo(subtask.id)}
+                aria-label={`Add a step under "${subtask.title}"`}
+                disabled={disabled}
+              >
+                <CornerDownRight className="w-3 h-3" />
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              className="h-6 px-1 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+              onClick={() => onChange(removeSubtask(subtasks, subtask.id))}
+              aria-label={`Remove step "${subtask.title}"`}
+              disabled={disabled}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+          {subtask.subtasks?.length > 0 && renderItems(subtask.subtasks, depth + 1)}
+          {addingTo === subtask.id && (
+            <div className="ml-6">
+              <AddStepInput
+                label={`New step under "${subtask.title}"`}
+                onAdd={(title) => onChange(addSubtask(subtasks, subtask.id, title))}
+                onDone={() => setAddingTo(null)}
+                autoFocus
+              />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-2">
+      {subtasks.length > 0 && renderItems(subtasks, 1)}
+      {!disabled && <AddStepInput label="Add a step" onAdd={(title) => onChange(addSubtask(subtasks, null, title))} />}
+    </div>
+  );
+};
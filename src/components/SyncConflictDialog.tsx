@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/sonner";
+import { useLocalStore } from "@/hooks/useLocalStore";
+import { useTaskHistory } from "@/hooks/useTaskHistory";
+import { useTaskRepository } from "@/hooks/useTaskRepository";
+import { useSyncStatus } from "@/hooks/useTaskSync";
+import { formatPriority } from "@/lib/badges";
+import { projectStore } from "@/lib/projects";
+import { describeRecurrence } from "@/lib/recurrence";
+import { getSubtaskProgress } from "@/lib/subtasks";
+import { dismissConflict } from "@/lib/sync/conflicts";
+import { MERGE_FIELD_LABELS } from "@/lib/sync/merge";
+import { resolveTags, tagStore } from "@/lib/tags";
+import { DEFAULT_WORKFLOW, workflowStore } from "@/lib/workflows";
+import { cn } from "@/lib/utils";
+import type { FieldConflict, SyncConflict } from "@/types/Sync";
+import type { Priority, Recurrence, Subtask } from "@/types/Task";
+
+type Side = "local" | "remote";
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SIDE_LABELS: Record<Side, string> = { local: "This device", remote: "Other device" };
+
+export const SyncConflictDialog = ({ open, onOpenChange }: SyncConflictDialogProps) => {
+  const status = useSyncStatus();
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+  const projects = useLocalStore(projectStore);
+  const tags = useLocalStore(tagStore);
+  const workflows = useLocalStore(workflowStore);
+  // Picked versions by conflict id and field group; unpicked ones keep what was applied
+  const [choices, setChoices] = useState<Record<string, Side[]>>({});
+  const conflicts = status?.conflicts ?? [];
+
+  const chosen = (conflict: SyncConflict, index: number) => choices[conflict.id]?.[index] ?? conflict.conflicts[index].applied;
+
+  const choose = (conflict: SyncConflict, index: number, side: Side) =>
+    setChoices(previous => {
+      const sides = conflict.conflicts.map((_, other) => chosen(conflict, other));
+      sides[index] = side;
+      return { ...previous, [conflict.id]: sides };
+    });
+
+  const formatValues = ({ fields }: FieldConflict, values: Record<string, unknown>) => {
+    switch (fields[0]) {
+      case "status": {
+        const match = Object.values(workflows)
+          .concat(DEFAULT_WORKFLOW)
+          .flatMap(workflow => workflow.statuses)
+          .find(candidate => candidate.id === values.status);
+        return match?.name ?? (values.completed ? "Done" : "Open");
+      }
+      case "dueDate":
+        if (!values.dueDate) return "No due date";
+        return [values.dueDate, values.dueTime, values.dueTime && values.timeZone && `(${values.timeZone})`]
+          .filter(Boolean)
+          .join(" ");
+      case "priority":
+        return formatPriority(values.priority as Priority);
+      case "projectId":
+        return projects.find(project => project.id === values.projectId)?.name ?? "Deleted project";
+      case "tags": {
+        const names = resolveTags(tags, values.tags as string[]).map(tag => `#${tag.name}`);
+        return names.length > 0 ? names.join(" ") : "No tags";
+      }
+      case "subtasks": {
+        const { done, total } = getSubtaskProgress(values.subtasks as Subtask[]);
+        return total > 0 ? `${done} of ${total} steps done` : "No steps";
+      }
+      case "recurrence":
+        return values.recurrence ? describeRecurrence(values.recurrence as Recurrence) : "Doesn't repeat";
+      case "deletedAt":
+        return values.deletedAt ? "In the trash" : "Not in the trash";
+      default: {
+        const value = values[fields[0]];
+        if (value === undefined || value === "") return "None";
+        return typeof value === "string" ? value : typeof value === "boolean" ? (value ? "Yes" : "No") : JSON.stringify(value);
+      }
+    }
+  };
+
+  // Writes the picked versions that differ from what was applied, as one
+  // undoable edit
+  const resolve = async (conflict: SyncConflict) => {
+    const changes = Object.fromEntries(
+      conflict.conflicts.flatMap((fieldConflict, index) => {
+        const side = chosen(conflict, index);
+        if (side === fieldConflict.applied) return [];
+        return fieldConflict.fields.map(field => [field, fieldConflict[side][field]]);
+      })
+    );
+    try {
+      if (Object.keys(changes).length > 0 && (await repository.get(conflict.taskId))) {
+        await history.group("Resolve sync conflict", group => group.repository.update(conflict.taskId, changes));
+      }
+      dismissConflict(conflict.id);
+    } catch (error) {
+      console.error("Failed to resolve sync conflict:", error);
+      toast.error("Couldn't save your choice");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            These tasks were changed on this device and on another one before they synced. Where both changed the same
+            thing, the later change was kept. Pick the version you want for each.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No conflicts left to review.</p>
+        ) : (
+          <ul className="space-y-6">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="space-y-3">
+                <div className="flex items-baseline justify-between gap-2">
+                  <p className="font-medium truncate">{conflict.title}</p>
+                  <span className="text-xs text-muted-foreground shrink-0">
+                    {formatDistanceToNow(new Date(conflict.detectedAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {conflict.conflicts.map((fieldConflict, index) => (
+                  <div key={fieldConflict.fields.join()} className="space-y-1">
+                    <p className="text-sm text-muted-foreground">
+                      {MERGE_FIELD_LABELS[fieldConflict.fields[0]] ?? fieldConflict.fields[0]}
+                    </p>
+                    <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label={MERGE_FIELD_LABELS[fieldConflict.fields[0]]}>
+                      {(["local", "remote"] as Side[]).map(side => {
+                        const changedAt = side === "local" ? fieldConflict.localChangedAt : fieldConflict.remoteChangedAt;
+                        return (
+                          <button
+                            key={side}
+                            type="button"
+                            role="radio"
+                            aria-checked={chosen(conflict, index) === side}
+                            onClick={() => choose(conflict, index, side)}
+                            className={cn(
+                              "rounded-md border p-2 text-left text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-ring",
+                              chosen(conflict, index) === side ? "border-primary bg-primary/5" : "border-border hover:bg-muted"
+                            )}
+                          >
+                            <span className="block text-xs text-muted-foreground">
+                              {SIDE_LABELS[side]}
+                              {changedAt && ` · ${formatDistanceToNow(new Date(changedAt), { addSuffix: true })}`}
+                            </span>
+                            <span className="block whitespace-pre-wrap break-words">
+                              {formatValues(fieldConflict, fieldConflict[side])}
+                            </span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={() => resolve(conflict)}>
+                    Keep selected
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
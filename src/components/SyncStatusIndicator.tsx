@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { AlertCircle, AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { SyncConflictDialog } from "@/components/SyncConflictDialog";
+import { useSyncStatus, type SyncState } from "@/hooks/useTaskSync";
+import { cn } from "@/lib/utils";
+
+const STATES: Record<SyncState, { label: string; icon: typeof Cloud; className?: string }> = {
+  synced: { label: "Synced", icon: Cloud },
+  syncing: { label: "Syncing", icon: RefreshCw, className: "animate-spin" },
+  offline: { label: "Offline", icon: CloudOff },
+  error: { label: "Sync failed", icon: AlertCircle, className: "text-destructive" },
+};
+
+// Shows whether local changes have reached the sync server; clicking syncs
+// at once. Merges that need a review get a button of their own. Renders
+// nothing when syncing isn't set up.
+export const SyncStatusIndicator = () => {
+  const status = useSyncStatus();
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+  if (!status) return null;
+
+  const { label, icon: Icon, className } = STATES[status.state];
+  const details = [
+    status.pending > 0 && `${status.pending} ${status.pending === 1 ? "change" : "changes"} waiting to sync.`,
+    status.state === "offline" && "Changes are kept on this device until you're back online.",
+    status.error,
+    status.lastSyncedAt
+      ? `Last synced ${formatDistanceToNow(new Date(status.lastSyncedAt), { addSuffix: true })}.`
+      : "Not synced yet.",
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={status.syncNow}
+            aria-label={`${label}. ${details.join(" ")} Sync now`}
+            className="text-muted-foreground"
+          >
+            <Icon className={cn("w-4 h-4", className)} />
+            <span className="ml-2 hidden sm:inline" aria-live="polite">
+              {label}
+              {status.pending > 0 && ` (${status.pending})`}
+            </span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {details.map(detail => (
+            <p key={detail as string}>{detail}</p>
+          ))}
+          <p className="text-muted-foreground">Click to sync now.</p>
+        </TooltipContent>
+      </Tooltip>
+      {status.conflicts.length > 0 && (
+        <Button variant="ghost" size="sm" className="text-warning" onClick={() => setConflictsOpen(true)}>
+          <AlertTriangle className="w-4 h-4 mr-2" />
+          {status.conflicts.length} {status.conflicts.length === 1 ? "conflict" : "conflicts"}
+        </Button>
+      )}
+      <SyncConflictDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Tag } from "@/types/Tag";
+
+interface TagBadgeProps {
+  tag: Tag;
+  onRemove?: (tag: Tag) => void;
+  className?: string;
+}
+
+export const TagBadge = ({ tag, onRemove, className }: TagBadgeProps) => (
+  <Badge
+    variant="outline"
+    className={cn("gap-1 font-medium", className)}
+    style={{ borderColor: tag.color, color: tag.color, backgroundColor: `${tag.color}1a` }}
+  >
+    #{tag.name}
+    {onRemove && (
+      <button
+        type="button"
+        onClick={() => onRemove(tag)}
+        className="rounded-full hover:bg-black/10 focus:outline-none focus:ring-1 focus:ring-ring"
+        aria-label={`Remove tag ${tag.name}`}
+      >
+        <X className="w-3 h-3" />
+      </button>
+    )}
+  </Badge>
+);
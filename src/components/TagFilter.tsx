@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Check, Filter, Settings2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { TagManagerDialog } from "@/components/TagManagerDialog";
+import { useTags } from "@/hooks/useTags";
+import { cn } from "@/lib/utils";
+
+interface TagFilterProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+export const TagFilter = ({ value, onChange }: TagFilterProps) => {
+  const { tags } = useTags();
+  const [managerOpen, setManagerOpen] = useState(false);
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(existing => existing !== tagId) : [...value, tagId]);
+  };
+
+  return (
+    <>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className={cn(value.length > 0 && "border-primary text-primary")}>
+            <Filter className="w-4 h-4 mr-2" />
+            Tags{value.length > 0 && ` (${value.length})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-60 p-0" align="end">
+          <Command>
+            <CommandInput placeholder="Filter by tag..." />
+            <CommandList>
+              <CommandEmpty>No tags found.</CommandEmpty>
+              <CommandGroup>
+                {tags.map(tag => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                    <Check className={cn("w-4 h-4 mr-2", value.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                    <span className="w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              <CommandSeparator />
+              <CommandGroup>
+                {value.length > 0 && (
+                  <CommandItem value="clear tag filter" onSelect={() => onChange([])}>
+                    Clear filter
+                  </CommandItem>
+                )}
+                <CommandItem value="manage tags" onSelect={() => setManagerOpen(true)}>
+                  <Settings2 className="w-4 h-4 mr-2" />
+                  Manage tags
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <TagManagerDialog open={managerOpen} onOpenChange={setManagerOpen} />
+    </>
+  );
+};
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Check, Plus, Tags } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { TagBadge } from "@/components/TagBadge";
+import { useTags } from "@/hooks/useTags";
+import { findTagByName, normalizeTagName, resolveTags } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TAG_NAME_MAX_LENGTH } from "@/types/Tag";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  id?: string;
+}
+
+// Autocompletes against the tag registry and creates unknown tags on the fly
+export const TagInput = ({ value, onChange, id }: TagInputProps) => {
+  const { tags, addTag } = useTags();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const selected = resolveTags(tags, value);
+  const canCreate = search.trim() !== "" && !findTagByName(tags, search);
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(existing => existing !== tagId) : [...value, tagId]);
+  };
+
+  const create = () => {
+    const tag = addTag(search);
+    if (!value.includes(tag.id)) {
+      onChange([...value, tag.id]);
+    }
+    setSearch("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {selected.map(tag => (
+        <TagBadge key={tag.id} tag={tag} onRemove={() => toggle(tag.id)} />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button id={id} type="button" variant="outline" size="sm" role="combobox" aria-expanded={open}>
+            <Tags className="w-4 h-4 mr-2" />
+            {selected.length ? "Edit tags" : "Add tags"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create a tag..."
+              value={search}
+              onValueChange={(next) => setSearch(next.slice(0, TAG_NAME_MAX_LENGTH))}
+            />
+            <CommandList>
+              <CommandEmpty>{canCreate ? null : "No tags yet."}</CommandEmpty>
+              {tags.length > 0 && (
+                <CommandGroup heading="Tags">
+                  {tags.map(tag => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                      <Check className={cn("w-4 h-4 mr-2", value.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                      <span className="w-2 h-2 mr-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {canCreate && (
+                <CommandGroup>
+                  {/* forceMount keeps the option visible whatever cmdk's own filter decides */}
+                  <CommandItem value={`create ${search}`} onSelect={create} forceMount>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Create tag "{normalizeTagName(search)}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
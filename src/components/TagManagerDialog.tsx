@@ -0,0 +1,74 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useTags } from "@/hooks/useTags";
+import { TAG_COLORS } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TAG_NAME_MAX_LENGTH } from "@/types/Tag";
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const TagManagerDialog = ({ open, onOpenChange }: TagManagerDialogProps) => {
+  const { tags, updateTag, removeTag } = useTags();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Manage tags</DialogTitle>
+          <DialogDescription>
+            Rename or recolour tags. Deleting a tag removes it from every task.
+          </DialogDescription>
+        </DialogHeader>
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags yet. Add one from the task form.</p>
+        ) : (
+          <ul className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {tags.map(tag => (
+              <li key={tag.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    defaultValue={tag.name}
+                    maxLength={TAG_NAME_MAX_LENGTH}
+                    aria-label={`Name of tag ${tag.name}`}
+                    onBlur={(e) => e.target.value.trim() && updateTag(tag.id, { name: e.target.value })}
+                    className="h-8"
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeTag(tag.id).catch(error => console.error("Failed to delete tag:", error))}
+                    aria-label={`Delete tag ${tag.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-1" role="radiogroup" aria-label={`Colour of tag ${tag.name}`}>
+                  {TAG_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      role="radio"
+                      aria-checked={tag.color === color}
+                      aria-label={color}
+                      onClick={() => updateTag(tag.id, { color })}
+                      className={cn(
+                        "w-5 h-5 rounded-full border-2 border-transparent focus:outline-none focus:ring-2 focus:ring-ring",
+                        tag.color === color && "border-foreground"
+                      )}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,78 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { Row, type DayProps, type RowProps } from "react-day-picker";
+import { format, isSameMonth, isSameWeek } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import type { CalendarView } from "@/lib/calendar";
+import { toDayKey } from "@/lib/dueDates";
+import { cn } from "@/lib/utils";
+
+interface TaskCalendarProps {
+  view: CalendarView;
+  // Month view shows this date's month, week view its week
+  anchor: Date;
+  today: string;
+  // Day the card being dragged would land on
+  dropDay: string | null;
+  renderDay: (day: string) => ReactNode;
+}
+
+// DayPicker renders days and rows itself, so they read the grid's props from here
+const TaskCalendarContext = createContext<TaskCalendarProps>(null);
+
+const CalendarDay = ({ date, displayMonth }: DayProps) => {
+  const { view, today, dropDay, renderDay } = useContext(TaskCalendarContext);
+  const day = toDayKey(date);
+  const outside = view === "month" && !isSameMonth(date, displayMonth);
+
+  return (
+    <div
+      data-date={day}
+      className={cn(
+        "flex h-full flex-col gap-1 p-1 text-left",
+        (outside || day < today) && "bg-muted/40",
+        dropDay === day && "ring-2 ring-inset ring-primary"
+      )}
+    >
+      <time
+        dateTime={day}
+        aria-label={format(date, "EEEE, MMMM d")}
+        className={cn(
+          "flex h-6 w-6 shrink-0 items-center justify-center self-end rounded-full text-xs",
+          outside && "text-muted-foreground",
+          day === today && "bg-primary font-semibold text-primary-foreground"
+        )}
+      >
+        {format(date, "d")}
+      </time>
+      {renderDay(day)}
+    </div>
+  );
+};
+
+// Week view is the month grid with every other week left out
+const CalendarRow = (props: RowProps) => {
+  const { view, anchor } = useContext(TaskCalendarContext);
+  if (view === "week" && !props.dates.some(date => isSameWeek(date, anchor))) return null;
+  return <Row {...props} />;
+};
+
+// Month or week grid of days; the page renders each day's tasks and owns navigation
+export const TaskCalendar = (props: TaskCalendarProps) => (
+  <TaskCalendarContext.Provider value={props}>
+    <Calendar
+      month={props.anchor}
+      disableNavigation
+      className="p-0"
+      classNames={{
+        months: "w-full",
+        month: "w-full",
+        table: "w-full table-fixed border-collapse",
+        head_row: "",
+        head_cell: "pb-2 text-xs font-normal text-muted-foreground",
+        row: "",
+        cell: cn("border p-0 align-top", props.view === "week" ? "h-[28rem]" : "h-32"),
+      }}
+      components={{ Caption: () => null, Day: CalendarDay, Row: CalendarRow }}
+    />
+  </TaskCalendarContext.Provider>
+);
@@ -1,41 +1,349 @@
-// TODO: Create the TaskForm component
-// Requirements:
-// - Form fields: title (required), description (optional), priority dropdown, due date
-// - Form validation with error messages
-// - Handle form submission
-// - Clear form after successful submission
-// - Use controlled components
-
-import { useState } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagInput } from "@/components/TagInput";
+import { RecurrenceField } from "@/components/RecurrenceField";
+import { ReminderField } from "@/components/ReminderField";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  TITLE_MAX_LENGTH,
+  taskFormSchema,
+  type Task,
+  type TaskFormData,
+} from "@/types/Task";
+import { withSubtasks } from "@/lib/subtasks";
+import { listTimeZones, localTimeZone } from "@/lib/dueDates";
 
 interface TaskFormProps {
-  // Define your props here
+  // Project that new tasks are created in
+  projectId: string;
+  onSave: (task: Task) => void;
+  onCancel: () => void;
+  initialTask?: Task | null;
 }
 
-export const TaskForm = ({ }: TaskFormProps) => {
-  // TODO: Add form state management
+const PRIORITY_OPTIONS: { value: TaskFormData["priority"]; label: string }[] = [
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+];
+
+const toFormValues = (task?: Task | null): TaskFormData => ({
+  title: task?.title ?? "",
+  description: task?.description ?? "",
+  priority: task?.priority ?? "medium",
+  dueDate: task?.dueDate ?? "",
+  dueTime: task?.dueTime ?? "",
+  timeZone: task?.timeZone ?? localTimeZone(),
+  reminders: task?.reminders ?? [],
+  completeWithSubtasks: task?.completeWithSubtasks ?? false,
+  tags: task?.tags ?? [],
+  recurrence: task?.recurrence,
+});
+
+// A due date may not be moved into the past, but an existing overdue task can
+// still be saved as long as its due date is left untouched.
+const createFormSchema = (initialDueDate: string) =>
+  taskFormSchema.refine(
+    ({ dueDate }) => !dueDate || dueDate === initialDueDate || dueDate >= format(new Date(), "yyyy-MM-dd"),
+    { message: "Due date cannot be in the past.", path: ["dueDate"] }
+  );
+
+export const TaskForm = ({ projectId, onSave, onCancel, initialTask }: TaskFormProps) => {
+  const defaultValues = toFormValues(initialTask);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const form = useForm<TaskFormData>({
+    resolver: zodResolver(createFormSchema(defaultValues.dueDate)),
+    defaultValues,
+    mode: "onTouched",
+  });
+  const { isDirty, isSubmitting } = form.formState;
+  const descriptionLength = form.watch("description")?.length ?? 0;
+  const [dueDate, dueTime, timeZone] = form.watch(["dueDate", "dueTime", "timeZone"]);
+  // The saved zone stays selectable even if this browser doesn't list it
+  const timeZones = useMemo(() => {
+    const zones = listTimeZones();
+    return zones.includes(timeZone) ? zones : [timeZone, ...zones];
+  }, [timeZone]);
+
+  const handleSubmit = (values: TaskFormData) => {
+    const task: Task = {
+      ...initialTask,
+      id: initialTask?.id ?? crypto.randomUUID(),
+      projectId: initialTask?.projectId ?? projectId,
+      title: values.title,
+      description: values.description || undefined,
+      priority: values.priority,
+      completed: initialTask?.completed ?? false,
+      dueDate: values.dueDate || undefined,
+      // A time needs a date, and the zone and reminders only mean something with a time
+      dueTime: (values.dueDate && values.dueTime) || undefined,
+      timeZone: values.dueDate && values.dueTime ? values.timeZone : undefined,
+      reminders: values.dueDate && values.dueTime && values.reminders?.length ? values.reminders : undefined,
+      completeWithSubtasks: values.completeWithSubtasks,
+      tags: values.tags?.length ? values.tags : undefined,
+      recurrence: values.recurrence,
+      createdAt: initialTask?.createdAt ?? new Date().toISOString(),
+    };
+    // Switching auto-completion on may change the task's completion right away
+    onSave(task.subtasks?.length ? { ...task, ...withSubtasks(task, task.subtasks) } : task);
+    form.reset(toFormValues(null));
+  };
+
+  const handleCancel = () => {
+    if (isDirty) {
+      setConfirmDiscard(true);
+    } else {
+      onCancel();
+    }
+  };
 
   return (
-    <Card>
+    <Card className="animate-in fade-in slide-in-from-top-4">
       <CardHeader>
-        <CardTitle>Add New Task</CardTitle>
+        <CardTitle>{initialTask ? "Edit Task" : "Add New Task"}</CardTitle>
+        <CardDescription>
+          {initialTask ? "Update the details for this task." : "Create a new task to manage your work."}
+        </CardDescription>
       </CardHeader>
       <CardContent>
-        {/* TODO: Implement form fields here */}
-        <div className="space-y-4">
-          <div>
-            <Input placeholder="Task title..." />
-          </div>
-          
-          <div className="flex gap-2">
-            <Button type="submit">Add Task</Button>
-            <Button type="button" variant="outline">Cancel</Button>
-          </div>
-        </div>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" noValidate>
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., Complete project report"
+                      maxLength={TITLE_MAX_LENGTH}
+                      autoFocus
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Add more details about the task..." {...field} />
+                  </FormControl>
+                  <FormDescription className={descriptionLength > DESCRIPTION_MAX_LENGTH ? "text-destructive" : ""}>
+                    {descriptionLength}/{DESCRIPTION_MAX_LENGTH} characters
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="priority"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Priority</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex items-center gap-4">
+                      {PRIORITY_OPTIONS.map(option => (
+                        <div key={option.value} className="flex items-center space-x-2">
+                          <RadioGroupItem value={option.value} id={`${option.value}-priority`} />
+                          <Label htmlFor={`${option.value}-priority`}>{option.label}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="dueDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="dueTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Due Time</FormLabel>
+                    <FormControl>
+                      <Input type="time" disabled={!dueDate} {...field} />
+                    </FormControl>
+                    <FormDescription>Optional</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {dueDate && dueTime && (
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Zone</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {timeZones.map(zone => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone.replace(/_/g, " ")}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>The due time is kept in this zone wherever the task is viewed.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="reminders"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reminders</FormLabel>
+                  <ReminderField
+                    id="task-reminders"
+                    value={field.value ?? []}
+                    onChange={field.onChange}
+                    disabled={!dueDate || !dueTime}
+                  />
+                  {(!dueDate || !dueTime) && <FormDescription>Set a due time to add reminders.</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="recurrence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Repeat</FormLabel>
+                  <RecurrenceField
+                    id="task-recurrence"
+                    value={field.value}
+                    onChange={field.onChange}
+                    dueDate={dueDate}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <TagInput value={field.value ?? []} onChange={field.onChange} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="completeWithSubtasks"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Complete with steps</FormLabel>
+                    <FormDescription>Mark this task done automatically once all of its steps are done.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="flex items-center justify-end gap-2">
+              {isDirty && initialTask && (
+                <span className="mr-auto text-xs text-muted-foreground" aria-live="polite">
+                  Unsaved changes
+                </span>
+              )}
+              <Button type="button" variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                className="bg-primary hover:bg-primary/90"
+                disabled={isSubmitting || (initialTask && !isDirty)}
+              >
+                {initialTask ? "Save Changes" : "Create Task"}
+              </Button>
+            </div>
+          </form>
+        </Form>
       </CardContent>
+
+      <AlertDialog open={confirmDiscard} onOpenChange={setConfirmDiscard}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The changes you made to this task will be lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep editing</AlertDialogCancel>
+            <AlertDialogAction onClick={onCancel}>Discard</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,70 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { toast } from "@/components/ui/sonner";
+import { createTaskHistory, createTaskRepository, type LoadReport, type TaskRepository } from "@/lib/storage";
+import { createTaskApi } from "@/lib/sync/api";
+import { createTaskSync } from "@/lib/sync/taskSync";
+import { TaskRepositoryContext } from "@/hooks/useTaskRepository";
+import { TaskHistoryContext } from "@/hooks/useTaskHistory";
+import { TaskSyncContext, useTaskSyncEngine } from "@/hooks/useTaskSync";
+
+interface TaskRepositoryProviderProps {
+  // Hosts embedding the app can pass their own backend; otherwise one is
+  // created from the VITE_TASK_STORAGE setting on first render.
+  repository?: TaskRepository;
+  // Base URL of the sync server, VITE_SYNC_URL by default. Without one,
+  // tasks stay on this device.
+  syncUrl?: string;
+  children: ReactNode;
+}
+
+const announceLoadReport = ({ fromVersion, toVersion, loaded, quarantined, readOnly }: LoadReport) => {
+  if (readOnly) {
+    toast.error("Your tasks are read-only", {
+      description: `They were saved by a newer version of the app (storage format v${fromVersion}). Update to make changes; nothing was overwritten.`,
+      duration: Infinity,
+    });
+    return;
+  }
+  if (fromVersion !== null && fromVersion < toVersion) {
+    toast.info("Your saved tasks were upgraded", {
+      description: `${loaded} ${loaded === 1 ? "task" : "tasks"} migrated from storage format v${fromVersion} to v${toVersion}.`,
+    });
+  }
+  if (quarantined.length > 0) {
+    toast.warning(`${quarantined.length} saved ${quarantined.length === 1 ? "task" : "tasks"} could not be read`, {
+      description: "They were set aside instead of being deleted. The rest of your tasks loaded normally.",
+    });
+  }
+};
+
+export const TaskRepositoryProvider = ({
+  repository,
+  syncUrl = import.meta.env.VITE_SYNC_URL,
+  children,
+}: TaskRepositoryProviderProps) => {
+  const [defaultRepository] = useState(() => repository ?? createTaskRepository());
+  const activeRepository = repository ?? defaultRepository;
+  const sync = useMemo(
+    () => (syncUrl ? createTaskSync(activeRepository, createTaskApi(syncUrl)) : null),
+    [activeRepository, syncUrl]
+  );
+  // The app writes through the history so every change can be undone, and
+  // through the sync queue so every change reaches the server
+  const history = useMemo(() => createTaskHistory(sync?.repository ?? activeRepository), [sync, activeRepository]);
+  const syncStatus = useTaskSyncEngine(sync);
+
+  useEffect(() => {
+    activeRepository
+      .loadReport()
+      .then(announceLoadReport)
+      .catch(error => console.error("Failed to load tasks:", error));
+  }, [activeRepository]);
+
+  return (
+    <TaskRepositoryContext.Provider value={history.repository}>
+      <TaskHistoryContext.Provider value={history}>
+        <TaskSyncContext.Provider value={syncStatus}>{children}</TaskSyncContext.Provider>
+      </TaskHistoryContext.Provider>
+    </TaskRepositoryContext.Provider>
+  );
+};
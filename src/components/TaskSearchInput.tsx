@@ -0,0 +1,74 @@
+import { HelpCircle, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DATE_KEYWORDS, HAS_VALUES, IS_VALUES, type QueryError } from "@/lib/search/queryParser";
+import { cn } from "@/lib/utils";
+
+interface TaskSearchInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  error?: QueryError;
+}
+
+const SYNTAX_EXAMPLES: [string, string][] = [
+  ["priority:high", "Priority is low, medium or high"],
+  ["due:<2026-11-01", "Due before a date; also <=, >, >= and due:none"],
+  ["created:>=yesterday", `Dates accept YYYY-MM-DD or ${DATE_KEYWORDS.join(", ")}`],
+  ["is:open", `One of ${IS_VALUES.join(", ")}`],
+  ["has:subtasks", `One of ${HAS_VALUES.join(", ")}`],
+  ["tag:backend", "Tag name, or the start of one"],
+  ['"exact phrase"', "Title or description contains the phrase"],
+  ["-word", "Exclude tasks matching the term"],
+  ["(a OR b)", "Match either term"],
+];
+
+export const TaskSearchInput = ({ value, onChange, error }: TaskSearchInputProps) => (
+  <div className="relative w-full sm:max-w-xs">
+    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+    <Input
+      type="text"
+      placeholder="Search tasks..."
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={cn("pl-9 pr-9", error && "border-destructive focus-visible:ring-destructive")}
+      aria-label="Search tasks"
+      aria-invalid={Boolean(error)}
+      aria-describedby={error ? "task-search-error" : undefined}
+    />
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7"
+          aria-label="Search syntax"
+        >
+          <HelpCircle className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <p className="text-sm font-medium mb-2">Search syntax</p>
+        <dl className="space-y-1.5 text-xs">
+          {SYNTAX_EXAMPLES.map(([example, description]) => (
+            <div key={example} className="flex gap-3">
+              <dt className="font-mono shrink-0 w-32">{example}</dt>
+              <dd className="text-muted-foreground">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      </PopoverContent>
+    </Popover>
+    {error && (
+      <p id="task-search-error" role="alert" className="absolute top-full mt-1 text-xs text-destructive">
+        {error.message}
+        {value.slice(error.start, error.end) && (
+          <>
+            {" "}
+            near <code className="font-mono">{value.slice(error.start, error.end)}</code>
+          </>
+        )}
+      </p>
+    )}
+  </div>
+);
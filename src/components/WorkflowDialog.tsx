@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/components/ui/sonner";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { DEFAULT_WORKFLOW, STATUS_CATEGORY_LABELS, createWorkflowStatus, validateWorkflow } from "@/lib/workflows";
+import {
+  STATUS_NAME_MAX_LENGTH,
+  statusCategorySchema,
+  type StatusCategory,
+  type Workflow,
+  type WorkflowStatus,
+} from "@/types/Workflow";
+
+interface WorkflowDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CategorySelect = ({
+  value,
+  onChange,
+  label,
+}: {
+  value: StatusCategory;
+  onChange: (category: StatusCategory) => void;
+  label: string;
+}) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="h-8 w-36" aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {statusCategorySchema.options.map(category => (
+        <SelectItem key={category} value={category}>
+          {STATUS_CATEGORY_LABELS[category]}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Edits a draft so the workflow is only validated and applied on save
+const WorkflowEditor = ({ projectId, onDone }: { projectId: string; onDone: () => void }) => {
+  const { workflow, saveWorkflow } = useWorkflow(projectId);
+  const [draft, setDraft] = useState<Workflow>(workflow);
+  const [newName, setNewName] = useState("");
+  const [newCategory, setNewCategory] = useState<StatusCategory>("active");
+  const [isSaving, setIsSaving] = useState(false);
+  const error =
+    validateWorkflow(draft) ?? (draft.statuses.some(status => !status.name.trim()) ? "Every status needs a name." : null);
+
+  const updateStatus = (id: string, changes: Partial<WorkflowStatus>) =>
+    setDraft(previous => ({
+      ...previous,
+      statuses: previous.statuses.map(status => (status.id === id ? { ...status, ...changes } : status)),
+    }));
+
+  const moveStatus = (index: number, offset: number) =>
+    setDraft(previous => {
+      const statuses = [...previous.statuses];
+      [statuses[index], statuses[index + offset]] = [statuses[index + offset], statuses[index]];
+      return { ...previous, statuses };
+    });
+
+  // Tasks in a removed status move to another status of the same category on save
+  const removeStatus = (id: string) =>
+    setDraft(previous => ({
+      statuses: previous.statuses.filter(status => status.id !== id),
+      transitions: Object.fromEntries(
+        Object.entries(previous.transitions)
+          .filter(([from]) => from !== id)
+          .map(([from, targets]) => [from, targets.filter(target => target !== id)])
+      ),
+    }));
+
+  const addStatus = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    setDraft(previous => ({ ...previous, statuses: [...previous.statuses, createWorkflowStatus(newName, newCategory)] }));
+    setNewName("");
+  };
+
+  // No entry means "any status"; switching to a restricted list starts from all others
+  const setAnyTarget = (from: string, any: boolean) =>
+    setDraft(previous => {
+      const transitions = { ...previous.transitions };
+      if (any) {
+        delete transitions[from];
+      } else {
+        transitions[from] = previous.statuses.map(status => status.id).filter(id => id !== from);
+      }
+      return { ...previous, transitions };
+    });
+
+  const toggleTarget = (from: string, to: string, allowed: boolean) =>
+    setDraft(previous => {
+      const targets = previous.transitions[from] ?? [];
+      return {
+        ...previous,
+        transitions: {
+          ...previous.transitions,
+          [from]: allowed ? [...targets, to] : targets.filter(target => target !== to),
+        },
+      };
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveWorkflow({
+        ...draft,
+        statuses: draft.statuses.map(status => ({ ...status, name: status.name.trim() })),
+      });
+      onDone();
+    } catch (saveError) {
+      toast.error("Couldn't save the workflow", {
+        description: saveError instanceof Error ? saveError.message : String(saveError),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-6 max-h-[60vh] overflow-y-auto pr-1">
+        <section className="space-y-2">
+          <div>
+            <h3 className="text-sm font-medium">Statuses</h3>
+            <p className="text-xs text-muted-foreground">Listed in board column order.</p>
+          </div>
+          <ol className="space-y-2">
+            {draft.statuses.map((status, index) => (
+              <li key={status.id} className="flex items-center gap-1">
+                <Input
+                  value={status.name}
+                  maxLength={STATUS_NAME_MAX_LENGTH}
+                  onChange={(e) => updateStatus(status.id, { name: e.target.value })}
+                  aria-label={`Name of status ${index + 1}`}
+                  className="h-8 flex-1"
+                />
+                <CategorySelect
+                  value={status.category}
+                  onChange={(category) => updateStatus(status.id, { category })}
+                  label={`Category of ${status.name}`}
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  disabled={index === 0}
+                  onClick={() => moveStatus(index, -1)}
+                  aria-label={`Move ${status.name} up`}
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  disabled={index === draft.statuses.length - 1}
+                  onClick={() => moveStatus(index, 1)}
+                  aria-label={`Move ${status.name} down`}
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  disabled={draft.statuses.length === 1}
+                  onClick={() => removeStatus(status.id)}
+                  aria-label={`Delete status ${status.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+          <form onSubmit={addStatus} className="flex items-center gap-1">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={STATUS_NAME_MAX_LENGTH}
+              placeholder="New status, e.g. Blocked"
+              aria-label="New status name"
+              className="h-8 flex-1"
+            />
+            <CategorySelect value={newCategory} onChange={setNewCategory} label="New status category" />
+            <Button type="submit" size="sm" variant="outline" disabled={!newName.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </section>
+
+        <section className="space-y-3">
+          <div>
+            <h3 className="text-sm font-medium">Allowed moves</h3>
+            <p className="text-xs text-muted-foreground">Restrict which statuses a task can move to from each status.</p>
+          </div>
+          {draft.statuses.map(from => {
+            const targets = draft.transitions[from.id];
+            return (
+              <div key={from.id} className="space-y-1.5 rounded-md border p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">From {from.name || "untitled"}</span>
+                  <Label className="flex items-center gap-2 text-xs font-normal">
+                    <Checkbox checked={!targets} onCheckedChange={(checked) => setAnyTarget(from.id, checked === true)} />
+                    Any status
+                  </Label>
+                </div>
+                {targets && (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {draft.statuses
+                      .filter(to => to.id !== from.id)
+                      .map(to => (
+                        <Label key={to.id} className="flex items-center gap-2 text-xs font-normal">
+                          <Checkbox
+                            checked={targets.includes(to.id)}
+                            onCheckedChange={(checked) => toggleTarget(from.id, to.id, checked === true)}
+                          />
+                          {to.name || "untitled"}
+                        </Label>
+                      ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </section>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Button variant="ghost" onClick={() => setDraft(DEFAULT_WORKFLOW)}>
+          Reset to default
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={Boolean(error) || isSaving}>
+            Save workflow
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+};
+
+export const WorkflowDialog = ({ projectId, open, onOpenChange }: WorkflowDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-xl">
+      <DialogHeader>
+        <DialogTitle>Workflow</DialogTitle>
+        <DialogDescription>
+          Statuses are the board's columns. Tasks count as completed in any status of the "Done" category.
+        </DialogDescription>
+      </DialogHeader>
+      <WorkflowEditor projectId={projectId} onDone={() => onOpenChange(false)} />
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,19 @@
+import { useCallback } from "react";
+import type { BoardColumnConfig } from "@/types/Board";
+import { boardStore } from "@/lib/board";
+import { useLocalStore } from "./useLocalStore";
+
+export const useBoardConfig = (projectId: string) => {
+  const config = useLocalStore(boardStore)[projectId] ?? {};
+
+  const updateColumn = useCallback(
+    (statusId: string, changes: Partial<BoardColumnConfig>) =>
+      boardStore.set(previous => {
+        const project = previous[projectId] ?? {};
+        return { ...previous, [projectId]: { ...project, [statusId]: { ...project[statusId], ...changes } } };
+      }),
+    [projectId]
+  );
+
+  return { config, updateColumn };
+};
@@ -0,0 +1,90 @@
+import { useCallback } from "react";
+import { localStoreStep } from "@/lib/storage";
+import { projectStore } from "@/lib/projects";
+import { tagStore } from "@/lib/tags";
+import { workflowStore } from "@/lib/workflows";
+import type { LocalStore } from "@/lib/storage/localStore";
+import type { ImportPlan, Workspace } from "@/lib/io/importPlan";
+import { serializeWorkspace } from "@/lib/io/json";
+import { downloadFile, exportFilename } from "@/lib/io/files";
+import { tasksToCsv } from "@/lib/io/csv";
+import { tasksToIcs } from "@/lib/io/ics";
+import { tasksToMarkdown } from "@/lib/io/markdown";
+import { tasksToTodoTxt } from "@/lib/io/todoTxt";
+import { isTrashed } from "@/lib/trash";
+import type { CsvColumn } from "@/types/Csv";
+import type { Task } from "@/types/Task";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTaskRepository } from "./useTaskRepository";
+
+export const useImportExport = () => {
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+
+  // Trashed tasks included, so an export restores the workspace as it was
+  const readWorkspace = useCallback(
+    async (): Promise<Workspace> => ({
+      tasks: await repository.list(),
+      projects: projectStore.get(),
+      tags: tagStore.get(),
+      workflows: workflowStore.get(),
+    }),
+    [repository]
+  );
+
+  const exportJson = useCallback(async () => {
+    downloadFile(exportFilename("json"), serializeWorkspace(await readWorkspace()), "application/json");
+  }, [readWorkspace]);
+
+  // Exports the given tasks, e.g. the ones a list view shows. The byte order
+  // mark makes Excel read the file as UTF-8.
+  const exportCsv = useCallback((tasks: Task[], columns: CsvColumn[]) => {
+    const csv = tasksToCsv(tasks, columns, {
+      projects: projectStore.get(),
+      tags: tagStore.get(),
+      workflows: workflowStore.get(),
+    });
+    downloadFile(exportFilename("csv"), `\uFEFF${csv}`, "text/csv");
+  }, []);
+
+  // Tasks with a due date, as VTODO items for calendar and to-do apps
+  const exportIcs = useCallback(async () => {
+    const tasks = (await repository.list()).filter(task => !isTrashed(task));
+    const ics = tasksToIcs(tasks, { tags: tagStore.get(), workflows: workflowStore.get() });
+    downloadFile(exportFilename("ics"), ics, "text/calendar");
+  }, [repository]);
+
+  // Plain-text formats for people who keep their lists in notes or todo.txt
+  const exportMarkdown = useCallback(async () => {
+    const tasks = (await repository.list()).filter(task => !isTrashed(task));
+    const markdown = tasksToMarkdown(tasks, { projects: projectStore.get(), tags: tagStore.get() });
+    downloadFile(exportFilename("md"), markdown, "text/markdown");
+  }, [repository]);
+
+  const exportTodoTxt = useCallback(async () => {
+    const tasks = (await repository.list()).filter(task => !isTrashed(task));
+    const todoTxt = tasksToTodoTxt(tasks, { projects: projectStore.get(), tags: tagStore.get() });
+    downloadFile(exportFilename("txt"), todoTxt, "text/plain");
+  }, [repository]);
+
+  // Writes a previewed plan as one undoable step. Tasks go first: when their
+  // batch fails, nothing else is written either.
+  const applyImport = useCallback(
+    (plan: ImportPlan) =>
+      history.group("Import tasks", async group => {
+        if (plan.operations.length > 0) await group.repository.batch(plan.operations);
+        const extend = <T>(store: LocalStore<T>, update: (previous: T) => T) => {
+          const before = store.get();
+          const after = update(before);
+          store.set(after);
+          group.record(localStoreStep(store, before, after));
+        };
+        if (plan.projects.length > 0) extend(projectStore, previous => [...previous, ...plan.projects]);
+        if (plan.tags.length > 0) extend(tagStore, previous => [...previous, ...plan.tags]);
+        if (Object.keys(plan.workflows).length > 0) extend(workflowStore, previous => ({ ...previous, ...plan.workflows }));
+      }),
+    [history]
+  );
+
+  return { readWorkspace, exportJson, exportCsv, exportIcs, exportMarkdown, exportTodoTxt, applyImport };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import type { LocalStore } from "@/lib/storage/localStore";
+
+export const useLocalStore = <T>(store: LocalStore<T>): T =>
+  useSyncExternalStore(store.subscribe, store.get);
@@ -0,0 +1,66 @@
+import { useCallback } from "react";
+import type { Project } from "@/types/Project";
+import { DEFAULT_PROJECT_ID, createProject, projectStore } from "@/lib/projects";
+import { boardStore } from "@/lib/board";
+import { sortStore } from "@/lib/sorting";
+import { getWorkflow, mapStatusToWorkflow, workflowStore } from "@/lib/workflows";
+import { localStoreStep } from "@/lib/storage";
+import type { LocalStore } from "@/lib/storage/localStore";
+import { useLocalStore } from "./useLocalStore";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTaskRepository } from "./useTaskRepository";
+
+export const useProjects = () => {
+  const projects = useLocalStore(projectStore);
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+
+  const addProject = useCallback((name: string): Project => {
+    const project = createProject(name);
+    projectStore.set(previous => [...previous, project]);
+    return project;
+  }, []);
+
+  const renameProject = useCallback((id: string, name: string) => {
+    projectStore.set(previous => previous.map(project => (project.id === id ? { ...project, name: name.trim() } : project)));
+  }, []);
+
+  // Tasks of a deleted project are moved to the inbox rather than lost, keeping
+  // their status where the inbox workflow has it. The project's workflow, sort
+  // and board settings go with it. Undo restores all of them.
+  const removeProject = useCallback(async (id: string) => {
+    if (id === DEFAULT_PROJECT_ID) {
+      throw new Error("The inbox cannot be deleted");
+    }
+    const before = projectStore.get();
+    const after = before.filter(project => project.id !== id);
+    const workflows = workflowStore.get();
+    const [fromWorkflow, inboxWorkflow] = [getWorkflow(workflows, id), getWorkflow(workflows, DEFAULT_PROJECT_ID)];
+
+    await history.group("Delete project", async group => {
+      projectStore.set(after);
+      group.record(localStoreStep(projectStore, before, after));
+      const orphaned = (await repository.list()).filter(task => task.projectId === id);
+      for (const task of orphaned) {
+        const status = mapStatusToWorkflow(task, fromWorkflow, inboxWorkflow);
+        await group.repository.update(task.id, {
+          projectId: DEFAULT_PROJECT_ID,
+          status: status.id,
+          completed: status.category === "done",
+        });
+      }
+      const forget = <T>(store: LocalStore<Record<string, T>>) => {
+        const previous = store.get();
+        if (!(id in previous)) return;
+        const { [id]: removed, ...next } = previous;
+        store.set(next);
+        group.record(localStoreStep(store, previous, next));
+      };
+      forget(workflowStore);
+      forget(sortStore);
+      forget(boardStore);
+    });
+  }, [repository, history]);
+
+  return { projects, addProject, renameProject, removeProject };
+};
@@ -0,0 +1,62 @@
+import { useEffect } from "react";
+import { toast } from "@/components/ui/sonner";
+import { formatDue } from "@/lib/dueDates";
+import {
+  canNotify,
+  collectDueReminders,
+  deliveredReminderStore,
+  markDelivered,
+  type DueReminder,
+} from "@/lib/reminders";
+import { useLocalStore } from "./useLocalStore";
+import { useTasks } from "./useTasks";
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Uses a system notification when permitted, an in-app toast otherwise. Some
+// platforms refuse notifications made this way (Android Chrome only shows
+// them through a service worker), so a failed one falls back to the toast.
+const deliver = ({ key, task }: DueReminder) => {
+  const body = `Due ${formatDue(task)}`;
+  if (canNotify()) {
+    try {
+      new Notification(task.title, { body, tag: key });
+      return;
+    } catch (error) {
+      console.warn("Showing the reminder in the app instead:", error);
+    }
+  }
+  toast(task.title, { description: body, duration: Infinity });
+};
+
+// The reminders that could be shown; the rest are tried again on the next check
+const deliverAll = (due: DueReminder[]) =>
+  due.filter(reminder => {
+    try {
+      deliver(reminder);
+      return true;
+    } catch (error) {
+      console.error("Failed to deliver reminder:", error);
+      return false;
+    }
+  });
+
+// Delivers task reminders while the app is open. Mounted once by the layout.
+export const useReminders = () => {
+  const { tasks } = useTasks();
+  // Subscribing keeps the delivered log in sync with other tabs
+  useLocalStore(deliveredReminderStore);
+
+  useEffect(() => {
+    const check = () => {
+      const now = new Date();
+      const due = collectDueReminders(tasks, deliveredReminderStore.get(), now);
+      if (due.length === 0) return;
+      const shown = deliverAll(due);
+      if (shown.length > 0) deliveredReminderStore.set(delivered => markDelivered(delivered, shown, now));
+    };
+    check();
+    const interval = window.setInterval(check, CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [tasks]);
+};
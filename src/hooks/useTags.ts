@@ -0,0 +1,46 @@
+import { useCallback } from "react";
+import type { Tag } from "@/types/Tag";
+import { createTag, findTagByName, normalizeTagName, tagStore } from "@/lib/tags";
+import { localStoreStep } from "@/lib/storage";
+import { useLocalStore } from "./useLocalStore";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTaskRepository } from "./useTaskRepository";
+
+export const useTags = () => {
+  const tags = useLocalStore(tagStore);
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+
+  // Returns the existing tag when one with the same name is already registered
+  const addTag = useCallback((name: string): Tag => {
+    const existing = findTagByName(tagStore.get(), name);
+    if (existing) return existing;
+    const tag = createTag(tagStore.get(), name);
+    tagStore.set(previous => [...previous, tag]);
+    return tag;
+  }, []);
+
+  const updateTag = useCallback((id: string, changes: Partial<Omit<Tag, "id">>) => {
+    tagStore.set(previous =>
+      previous.map(tag =>
+        tag.id === id ? { ...tag, ...changes, name: changes.name ? normalizeTagName(changes.name) : tag.name } : tag
+      )
+    );
+  }, []);
+
+  // Also strips the tag from every task that carries it; undo restores both
+  const removeTag = useCallback(async (id: string) => {
+    const before = tagStore.get();
+    const after = before.filter(tag => tag.id !== id);
+    await history.group("Delete tag", async group => {
+      tagStore.set(after);
+      group.record(localStoreStep(tagStore, before, after));
+      const tagged = (await repository.list()).filter(task => task.tags?.includes(id));
+      for (const task of tagged) {
+        await group.repository.update(task.id, { tags: task.tags.filter(tagId => tagId !== id) });
+      }
+    });
+  }, [repository, history]);
+
+  return { tags, addTag, updateTag, removeTag };
+};
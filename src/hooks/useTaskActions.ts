@@ -0,0 +1,165 @@
+import { useCallback } from "react";
+import type { Task } from "@/types/Task";
+import { describeChanges, differingChanges, type HistoryCommand, type TaskChanges, type TaskOperation } from "@/lib/storage";
+import { createNextOccurrence } from "@/lib/recurrence";
+import { formatDue } from "@/lib/dueDates";
+import { orderKeyAfter } from "@/lib/sorting";
+import { getWorkflow, initialStatus, mapStatusToWorkflow, resolveStatusChanges, workflowStore } from "@/lib/workflows";
+import { toast } from "@/components/ui/sonner";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTaskRepository } from "./useTaskRepository";
+
+type ChangePlan =
+  | { operations: TaskOperation[]; nextOccurrence: Task | null; error?: undefined }
+  | { operations?: undefined; nextOccurrence?: undefined; error: string };
+
+// The writes that apply `changes` to a task, keeping its status and completion
+// in step with the project's workflow. Completing a recurring task also
+// creates the next occurrence: the series moves on to it and the completed
+// task becomes a plain one. `tasks` is the full list, for ordering.
+const planTaskChanges = (task: Task, changes: TaskChanges, tasks: Task[]): ChangePlan => {
+  const workflow = getWorkflow(workflowStore.get(), task.projectId);
+  const result = resolveStatusChanges(workflow, task, changes);
+  if (result.error) return { error: result.error };
+
+  const resolved = result.changes;
+  const nextOccurrence = resolved.completed && !task.completed ? createNextOccurrence(task) : null;
+  if (!nextOccurrence) {
+    return { operations: [{ type: "update", id: task.id, changes: resolved }], nextOccurrence: null };
+  }
+  return {
+    operations: [
+      { type: "update", id: task.id, changes: { ...resolved, recurrence: undefined } },
+      {
+        type: "create",
+        task: { ...nextOccurrence, status: initialStatus(workflow).id, order: orderKeyAfter(tasks, task) },
+      },
+    ],
+    nextOccurrence,
+  };
+};
+
+// Keeps the task's status when the target project's workflow has it
+const projectMoveChanges = (task: Task, projectId: string): TaskChanges => {
+  const workflows = workflowStore.get();
+  const status = mapStatusToWorkflow(task, getWorkflow(workflows, task.projectId), getWorkflow(workflows, projectId));
+  return { projectId, status: status.id, completed: status.category === "done" };
+};
+
+const countTasks = (count: number) => `${count} ${count === 1 ? "task" : "tasks"}`;
+
+const announceNextOccurrences = (scheduled: Task[]) => {
+  if (scheduled.length === 1) {
+    toast.success("Next occurrence scheduled", {
+      description: `"${scheduled[0].title}" is due ${formatDue(scheduled[0])}.`,
+    });
+  } else if (scheduled.length > 1) {
+    toast.success(`Scheduled the next occurrence of ${countTasks(scheduled.length)}`);
+  }
+};
+
+// Task updates shared by the list, board and calendar views. Each action is
+// written as one batch, so it's saved and undone as a whole.
+export const useTaskActions = () => {
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+
+  // Moves the workflow forbids are reported, not saved. `related` writes go
+  // in the same batch, such as neighbours rekeyed to make room for a move.
+  const saveTaskChanges = useCallback(
+    async (task: Task, changes: TaskChanges, related: TaskOperation[] = []) => {
+      const plan = planTaskChanges(task, changes, await repository.list());
+      if (plan.error) {
+        toast.error("Status change not allowed", { description: plan.error });
+        return;
+      }
+      await history.group(describeChanges(changes), group => group.repository.batch([...plan.operations, ...related]));
+      announceNextOccurrences(plan.nextOccurrence ? [plan.nextOccurrence] : []);
+    },
+    [repository, history]
+  );
+
+  // Saves what the task form changed. The form holds the task as it was when
+  // it opened, so only the fields edited in it are written, on top of the
+  // current version: steps ticked or edits synced meanwhile are kept.
+  const saveTaskEdit = useCallback(
+    async (initial: Task, edited: Task) => {
+      const changes = differingChanges(initial, edited);
+      if (Object.keys(changes).length === 0) return;
+      await saveTaskChanges((await repository.get(initial.id)) ?? initial, changes);
+    },
+    [repository, saveTaskChanges]
+  );
+
+  // Changes to several tasks at once, worked out per task. Tasks whose
+  // workflow forbids them are left out and counted in a warning.
+  const saveBulkChanges = useCallback(
+    async (label: string, tasks: Task[], changesFor: (task: Task) => TaskChanges) => {
+      const all = await repository.list();
+      const plans = tasks.map(task => planTaskChanges(task, changesFor(task), all));
+      const applicable = plans.filter(plan => !plan.error);
+      if (applicable.length > 0) {
+        await history.group(label, group => group.repository.batch(applicable.flatMap(plan => plan.operations)));
+      }
+      const skipped = plans.length - applicable.length;
+      if (skipped > 0) {
+        toast.warning(`Skipped ${countTasks(skipped)}`, {
+          description: "Their workflow doesn't allow that status change.",
+        });
+      }
+      announceNextOccurrences(applicable.map(plan => plan.nextOccurrence).filter(Boolean));
+    },
+    [repository, history]
+  );
+
+  const moveTasksToProject = useCallback(
+    async (tasks: Task[], projectId: string) => {
+      const operations = tasks.map((task): TaskOperation => ({
+        type: "update",
+        id: task.id,
+        changes: projectMoveChanges(task, projectId),
+      }));
+      await history.group(tasks.length === 1 ? "Move task" : "Move tasks", group => group.repository.batch(operations));
+    },
+    [history]
+  );
+
+  const moveTaskToProject = useCallback(
+    (task: Task, projectId: string) => moveTasksToProject([task], projectId),
+    [moveTasksToProject]
+  );
+
+  const undoFromToast = useCallback(
+    (command: HistoryCommand) => {
+      history
+        .undoCommand(command)
+        .then(undone => {
+          if (!undone) {
+            toast.info("Undo the later changes first", {
+              description: "Press Ctrl+Z to step back through them.",
+            });
+          }
+        })
+        .catch(error => console.error("Failed to undo:", error));
+    },
+    [history]
+  );
+
+  // Moves tasks to the trash; the toast offers a way back
+  const deleteTasks = useCallback(
+    async (tasks: Task[]) => {
+      const deletedAt = new Date().toISOString();
+      const operations = tasks.map((task): TaskOperation => ({ type: "update", id: task.id, changes: { deletedAt } }));
+      const command = await history.group("Move to trash", group => group.repository.batch(operations));
+      if (!command) return;
+      const message =
+        tasks.length === 1 ? `Moved "${tasks[0].title}" to the trash` : `Moved ${countTasks(tasks.length)} to the trash`;
+      toast(message, { action: { label: "Undo", onClick: () => undoFromToast(command) } });
+    },
+    [history, undoFromToast]
+  );
+
+  const deleteTask = useCallback((task: Task) => deleteTasks([task]), [deleteTasks]);
+
+  return { saveTaskChanges, saveTaskEdit, saveBulkChanges, moveTaskToProject, moveTasksToProject, deleteTask, deleteTasks };
+};
@@ -0,0 +1,14 @@
+import { createContext, useContext, useSyncExternalStore } from "react";
+import type { TaskHistory } from "@/lib/storage";
+
+export const TaskHistoryContext = createContext<TaskHistory | null>(null);
+
+// The undo/redo history of task writes, plus what Undo and Redo would apply
+export const useTaskHistory = () => {
+  const history = useContext(TaskHistoryContext);
+  if (!history) {
+    throw new Error("useTaskHistory must be used within a TaskRepositoryProvider");
+  }
+  const state = useSyncExternalStore(history.subscribe, history.getState);
+  return { history, ...state };
+};
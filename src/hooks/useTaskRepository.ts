@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react";
+import type { TaskRepository } from "@/lib/storage";
+
+export const TaskRepositoryContext = createContext<TaskRepository | null>(null);
+
+export const useTaskRepository = (): TaskRepository => {
+  const repository = useContext(TaskRepositoryContext);
+  if (!repository) {
+    throw new Error("useTaskRepository must be used within a TaskRepositoryProvider");
+  }
+  return repository;
+};
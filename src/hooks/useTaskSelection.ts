@@ -0,0 +1,45 @@
+import { useCallback, useMemo, useState } from "react";
+import type { Task } from "@/types/Task";
+
+// Multi-select over a list of tasks. `tasks` is the list as shown: shift-click
+// ranges follow its order, and selected tasks that leave it (filtered out,
+// trashed) drop out of the selection.
+export const useTaskSelection = (tasks: Task[]) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // The last task toggled without shift; shift-clicks select from here
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+
+  const selectedTasks = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return tasks.filter(task => ids.has(task.id));
+  }, [tasks, selectedIds]);
+
+  const isSelected = useCallback((task: Task) => selectedIds.includes(task.id), [selectedIds]);
+
+  // Shift adds everything between the anchor and `task` to the selection
+  const toggle = useCallback(
+    (task: Task, range = false) => {
+      const from = tasks.findIndex(candidate => candidate.id === anchorId);
+      const to = tasks.findIndex(candidate => candidate.id === task.id);
+      if (range && from !== -1 && to !== -1) {
+        const rangeIds = tasks.slice(Math.min(from, to), Math.max(from, to) + 1).map(candidate => candidate.id);
+        setSelectedIds(previous => [...new Set([...previous, ...rangeIds])]);
+        return;
+      }
+      setSelectedIds(previous =>
+        previous.includes(task.id) ? previous.filter(id => id !== task.id) : [...previous, task.id]
+      );
+      setAnchorId(task.id);
+    },
+    [tasks, anchorId]
+  );
+
+  const selectAll = useCallback(() => setSelectedIds(tasks.map(task => task.id)), [tasks]);
+
+  const clear = useCallback(() => {
+    setSelectedIds([]);
+    setAnchorId(null);
+  }, []);
+
+  return { selectedTasks, isSelected, toggle, selectAll, clear };
+};
@@ -0,0 +1,53 @@
+import { useCallback } from "react";
+import type { ProjectSort, SortKey, SortPreset } from "@/types/Sort";
+import { EMPTY_PROJECT_SORT, sortStore } from "@/lib/sorting";
+import { useLocalStore } from "./useLocalStore";
+
+export const useTaskSort = (projectId: string) => {
+  const { keys, presets } = useLocalStore(sortStore)[projectId] ?? EMPTY_PROJECT_SORT;
+
+  const updateProjectSort = useCallback(
+    (update: (current: ProjectSort) => ProjectSort) =>
+      sortStore.set(previous => ({ ...previous, [projectId]: update(previous[projectId] ?? EMPTY_PROJECT_SORT) })),
+    [projectId]
+  );
+
+  const setSortKeys = useCallback(
+    (keys: SortKey[]) => updateProjectSort(current => ({ ...current, keys })),
+    [updateProjectSort]
+  );
+
+  // Saving under an existing name overwrites that preset
+  const savePreset = useCallback(
+    (name: string): SortPreset => {
+      const trimmed = name.trim();
+      const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+      const preset: SortPreset = { id: existing?.id ?? crypto.randomUUID(), name: trimmed, keys };
+      updateProjectSort(current => ({
+        ...current,
+        presets: existing
+          ? current.presets.map(candidate => (candidate.id === existing.id ? preset : candidate))
+          : [...current.presets, preset],
+      }));
+      return preset;
+    },
+    [keys, presets, updateProjectSort]
+  );
+
+  const applyPreset = useCallback(
+    (id: string) =>
+      updateProjectSort(current => {
+        const preset = current.presets.find(candidate => candidate.id === id);
+        return preset ? { ...current, keys: preset.keys } : current;
+      }),
+    [updateProjectSort]
+  );
+
+  const removePreset = useCallback(
+    (id: string) =>
+      updateProjectSort(current => ({ ...current, presets: current.presets.filter(preset => preset.id !== id) })),
+    [updateProjectSort]
+  );
+
+  return { sortKeys: keys, setSortKeys, presets, savePreset, applyPreset, removePreset };
+};
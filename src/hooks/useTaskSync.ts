@@ -0,0 +1,128 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+import { onlineManager, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/components/ui/sonner";
+import { shouldRetrySync, SyncRequestError, syncRetryDelay } from "@/lib/sync/api";
+import { conflictStore } from "@/lib/sync/conflicts";
+import { acknowledge, outboxStore, syncMetaStore } from "@/lib/sync/outbox";
+import type { TaskSync } from "@/lib/sync/taskSync";
+import type { OutboxEntry, SyncConflict } from "@/types/Sync";
+import { useLocalStore } from "./useLocalStore";
+
+const REMOTE_TASKS_KEY = ["sync", "tasks"];
+
+// Pulls from the server this often while the app is open, and on focus
+const PULL_INTERVAL = 30_000;
+// After the retries of a change run out, the next round starts this much later
+const RETRY_ROUND_DELAY = 60_000;
+
+export type SyncState = "offline" | "syncing" | "synced" | "error";
+
+export interface SyncStatus {
+  state: SyncState;
+  // Changes waiting for the server
+  pending: number;
+  // Merges that need a review
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+  error: string | null;
+  // Retries failed changes and pulls at once
+  syncNow: () => void;
+}
+
+// Null when syncing isn't set up
+export const TaskSyncContext = createContext<SyncStatus | null>(null);
+
+export const useSyncStatus = () => useContext(TaskSyncContext);
+
+const subscribeOnline = (listener: () => void) => onlineManager.subscribe(listener);
+const isOnline = () => onlineManager.isOnline();
+
+// Runs the sync engine for TaskRepositoryProvider: pushes queued changes one
+// at a time, oldest first, and pulls the server's tasks whenever nothing is
+// waiting. Does nothing when `sync` is null.
+export const useTaskSyncEngine = (sync: TaskSync | null): SyncStatus | null => {
+  const queryClient = useQueryClient();
+  const outbox = useLocalStore(outboxStore);
+  const conflicts = useLocalStore(conflictStore);
+  const { lastSyncedAt } = useLocalStore(syncMetaStore);
+  const online = useSyncExternalStore(subscribeOnline, isOnline);
+  // A pull that started before the last push may not include it
+  const lastPushAt = useRef(0);
+  const reconciledAt = useRef(0);
+
+  const remote = useQuery({
+    queryKey: REMOTE_TASKS_KEY,
+    queryFn: () => sync.api.list(),
+    enabled: Boolean(sync),
+    refetchInterval: PULL_INTERVAL,
+    retry: shouldRetrySync,
+    retryDelay: syncRetryDelay,
+  });
+
+  const push = useMutation({
+    mutationFn: (entry: OutboxEntry) => sync.push(entry),
+    retry: shouldRetrySync,
+    retryDelay: syncRetryDelay,
+    onSuccess: ({ pushed, conflicts }, entry) => {
+      lastPushAt.current = Date.now();
+      acknowledge(entry.id, pushed);
+      if (conflicts.length > 0) {
+        toast.warning(`"${pushed.title}" was also edited on another device`, {
+          description: "Changes to the same fields were merged by keeping the latest. Review them from the sync status.",
+        });
+      }
+      if (outboxStore.get().length === 0) queryClient.invalidateQueries({ queryKey: REMOTE_TASKS_KEY });
+    },
+    onError: (error, entry) => {
+      if (error instanceof SyncRequestError && error.retryable) return;
+      // Rejected for good: drop the change and let the next pull restore the
+      // server's version of the task
+      acknowledge(entry.id);
+      toast.error("The sync server rejected a change", { description: error.message });
+      queryClient.invalidateQueries({ queryKey: REMOTE_TASKS_KEY });
+    },
+  });
+
+  const head = outbox[0];
+  const { mutate, reset, isPending, isError, variables } = push;
+  const failedHead = isError && variables?.id === head?.id;
+
+  useEffect(() => {
+    if (!sync || !head || isPending || failedHead || !online) return;
+    mutate(head);
+  }, [sync, head, isPending, failedHead, online, mutate]);
+
+  // Retries ran out (the server is down, say): try again later
+  useEffect(() => {
+    if (!failedHead) return;
+    const timeout = setTimeout(reset, RETRY_ROUND_DELAY);
+    return () => clearTimeout(timeout);
+  }, [failedHead, reset]);
+
+  const { data, dataUpdatedAt } = remote;
+  useEffect(() => {
+    if (!sync || !data || outbox.length > 0 || isPending) return;
+    if (dataUpdatedAt <= lastPushAt.current || dataUpdatedAt === reconciledAt.current) return;
+    reconciledAt.current = dataUpdatedAt;
+    sync.reconcile(data).catch(error => console.error("Failed to apply synced tasks:", error));
+  }, [sync, data, dataUpdatedAt, outbox.length, isPending]);
+
+  const syncNow = useCallback(() => {
+    reset();
+    queryClient.invalidateQueries({ queryKey: REMOTE_TASKS_KEY });
+  }, [reset, queryClient]);
+
+  const error = (failedHead ? push.error : null) ?? remote.error;
+  const state: SyncState = !online
+    ? "offline"
+    : error
+      ? "error"
+      : isPending || remote.isFetching || outbox.length > 0
+        ? "syncing"
+        : "synced";
+
+  return useMemo(
+    () => (sync ? { state, pending: outbox.length, conflicts, lastSyncedAt, error: error?.message ?? null, syncNow } : null),
+    [sync, state, outbox.length, conflicts, lastSyncedAt, error, syncNow]
+  );
+};
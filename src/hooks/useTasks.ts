@@ -0,0 +1,41 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Task } from "@/types/Task";
+import { isTrashed } from "@/lib/trash";
+import { useTaskRepository } from "./useTaskRepository";
+
+// Keeps a component in sync with the task repository. `tasks` leaves out the
+// trash, which only the trash view shows.
+export const useTasks = () => {
+  const repository = useTaskRepository();
+  const [allTasks, setTasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = repository.subscribe(next => {
+      if (!cancelled) setTasks(next);
+    });
+
+    repository
+      .list()
+      .then(loaded => {
+        if (!cancelled) setTasks(loaded);
+      })
+      .catch(error => console.error("Failed to load tasks:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [repository]);
+
+  const { tasks, trashedTasks } = useMemo(
+    () => ({ tasks: allTasks.filter(task => !isTrashed(task)), trashedTasks: allTasks.filter(isTrashed) }),
+    [allTasks]
+  );
+
+  return { tasks, trashedTasks, isLoading, repository };
+};
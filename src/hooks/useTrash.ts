@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef } from "react";
+import type { Task } from "@/types/Task";
+import { isExpired, trashSettingsStore } from "@/lib/trash";
+import { useLocalStore } from "./useLocalStore";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTasks } from "./useTasks";
+
+export const useTrash = () => {
+  const { trashedTasks, repository } = useTasks();
+  const { history } = useTaskHistory();
+  const { retentionDays } = useLocalStore(trashSettingsStore);
+
+  const setRetentionDays = useCallback((days: number | null) => trashSettingsStore.set({ retentionDays: days }), []);
+
+  const restoreTask = useCallback(
+    (task: Task) => repository.update(task.id, { deletedAt: undefined }),
+    [repository]
+  );
+
+  // Permanent, so it bypasses the undo history
+  const purgeTasks = useCallback(
+    async (tasks: Task[]) => {
+      for (const task of tasks) {
+        await history.source.delete(task.id);
+      }
+    },
+    [history]
+  );
+
+  return { trashedTasks, retentionDays, setRetentionDays, restoreTask, purgeTasks };
+};
+
+const RETENTION_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Purges trashed tasks past the retention period, on load and hourly after.
+// Mounted once by the layout.
+export const useTrashRetention = () => {
+  const { trashedTasks, retentionDays, purgeTasks } = useTrash();
+  // Each deleted task re-runs the effect; a second purge would delete the
+  // same tasks again and fail, so it waits for the one in flight
+  const purging = useRef(false);
+
+  useEffect(() => {
+    const purgeExpired = () => {
+      const expired = trashedTasks.filter(task => isExpired(task, retentionDays));
+      if (expired.length === 0 || purging.current) return;
+      purging.current = true;
+      purgeTasks(expired)
+        .catch(error => console.error("Failed to purge the trash:", error))
+        .finally(() => {
+          purging.current = false;
+        });
+    };
+    purgeExpired();
+    const interval = window.setInterval(purgeExpired, RETENTION_CHECK_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [trashedTasks, retentionDays, purgeTasks]);
+};
@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { toast } from "@/components/ui/sonner";
+import { useTaskHistory } from "./useTaskHistory";
+
+// Text fields keep their own undo
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT");
+
+// Ctrl+Z undoes the latest task change, Ctrl+Shift+Z (or Ctrl+Y) redoes it;
+// Cmd on macOS. Mounted once by the layout.
+export const useUndoShortcuts = () => {
+  const { history } = useTaskHistory();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && !e.shiftKey);
+      if (key !== "z" && !isRedo) return;
+      e.preventDefault();
+
+      (isRedo ? history.redo() : history.undo())
+        .then(command => {
+          if (command) {
+            toast(`${isRedo ? "Redid" : "Undid"}: ${command.label}`);
+          } else {
+            toast.info(isRedo ? "Nothing to redo" : "Nothing to undo");
+          }
+        })
+        .catch(error => {
+          console.error(`Failed to ${isRedo ? "redo" : "undo"}:`, error);
+          toast.error(`Couldn't ${isRedo ? "redo" : "undo"} that change`, {
+            description: "The tasks it touched changed in the meantime.",
+          });
+        });
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history]);
+};
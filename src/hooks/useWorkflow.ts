@@ -0,0 +1,44 @@
+import { useCallback } from "react";
+import type { Workflow } from "@/types/Workflow";
+import { getWorkflow, mapStatusToWorkflow, validateWorkflow, workflowStore } from "@/lib/workflows";
+import { localStoreStep } from "@/lib/storage";
+import { useLocalStore } from "./useLocalStore";
+import { useTaskHistory } from "./useTaskHistory";
+import { useTaskRepository } from "./useTaskRepository";
+
+export const useWorkflow = (projectId: string) => {
+  const workflow = getWorkflow(useLocalStore(workflowStore), projectId);
+  const repository = useTaskRepository();
+  const { history } = useTaskHistory();
+
+  // Also moves tasks off deleted statuses and re-syncs `completed` for
+  // statuses whose category changed, undoable as one change. Throws if the
+  // workflow is invalid.
+  const saveWorkflow = useCallback(
+    async (next: Workflow) => {
+      const error = validateWorkflow(next);
+      if (error) {
+        throw new Error(error);
+      }
+      const before = workflowStore.get();
+      const after = { ...before, [projectId]: next };
+      const previous = getWorkflow(before, projectId);
+
+      await history.group("Change workflow", async group => {
+        workflowStore.set(after);
+        group.record(localStoreStep(workflowStore, before, after));
+        const tasks = (await repository.list()).filter(task => task.projectId === projectId);
+        for (const task of tasks) {
+          const status = mapStatusToWorkflow(task, previous, next);
+          const completed = status.category === "done";
+          if (status.id !== task.status || completed !== task.completed) {
+            await group.repository.update(task.id, { status: status.id, completed });
+          }
+        }
+      });
+    },
+    [projectId, repository, history]
+  );
+
+  return { workflow, saveWorkflow };
+};
@@ -0,0 +1,17 @@
+import type { Priority } from "@/types/Task";
+import type { StatusCategory } from "@/types/Workflow";
+
+// A helper object to map priorities to the badge variants
+export const priorityVariantMap: Record<Priority, "destructive" | "warning" | "success"> = {
+  high: "destructive",
+  medium: "warning",
+  low: "success",
+};
+
+export const formatPriority = (priority: Priority) => priority.charAt(0).toUpperCase() + priority.slice(1);
+
+export const statusVariantMap: Record<StatusCategory, "secondary" | "default" | "success"> = {
+  not_started: "secondary",
+  active: "default",
+  done: "success",
+};
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { boardConfigSchema, type BoardConfig } from "@/types/Board";
+import type { Task } from "@/types/Task";
+import type { Workflow } from "@/types/Workflow";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { getTaskStatus } from "@/lib/workflows";
+
+// Board settings keyed by project id
+export const boardStore = createLocalStore<Record<string, BoardConfig>>({
+  key: "board",
+  schema: z.record(boardConfigSchema),
+  fallback: {},
+});
+
+// Tasks per workflow status id, one entry for every status
+export const groupByStatus = (workflow: Workflow, tasks: Task[]): Record<string, Task[]> => {
+  const groups: Record<string, Task[]> = Object.fromEntries(workflow.statuses.map(status => [status.id, []]));
+  tasks.forEach(task => groups[getTaskStatus(workflow, task).id].push(task));
+  return groups;
+};
@@ -0,0 +1,30 @@
+import { addDays, addMonths, addWeeks, endOfWeek, format, startOfWeek } from "date-fns";
+import type { Task } from "@/types/Task";
+import { dueDay, fromDayKey, toDayKey } from "@/lib/dueDates";
+
+export type CalendarView = "month" | "week";
+
+export const groupByDueDay = (tasks: Task[]) => {
+  const days = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const day = dueDay(task);
+    if (!day) continue;
+    days.set(day, [...(days.get(day) ?? []), task]);
+  }
+  return days;
+};
+
+export const shiftDay = (day: string, days: number) => toDayKey(addDays(fromDayKey(day), days));
+
+// The date shown after paging the calendar forwards or backwards
+export const stepAnchor = (anchor: Date, view: CalendarView, step: number) =>
+  view === "month" ? addMonths(anchor, step) : addWeeks(anchor, step);
+
+export const describeRange = (anchor: Date, view: CalendarView) => {
+  if (view === "month") return format(anchor, "MMMM yyyy");
+  const start = startOfWeek(anchor);
+  const end = endOfWeek(anchor);
+  return start.getFullYear() === end.getFullYear()
+    ? `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`
+    : `${format(start, "MMM d, yyyy")} – ${format(end, "MMM d, yyyy")}`;
+};
@@ -0,0 +1,94 @@
+import { addDays, differenceInCalendarDays, endOfDay, format } from "date-fns";
+import type { Task } from "@/types/Task";
+
+// Calendar days and date-only due dates are compared as "yyyy-MM-dd" strings
+export const toDayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Parses a day as local midnight; `new Date("2026-11-01")` would be UTC
+// midnight, which is the previous day west of Greenwich
+export const fromDayKey = (day: string) => new Date(`${day}T00:00:00`);
+
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Whether the browser knows the IANA zone `zone`
+export const isTimeZone = (zone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Not in the ES2020 typings; older browsers only get the local zone
+export const listTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf("timeZone") : [localTimeZone()];
+};
+
+// Minutes `timeZone` is ahead of UTC at `date`
+const zoneOffset = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    })
+      .formatToParts(date)
+      .map(part => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((wallClock - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+// The instant a wall-clock time in `timeZone` refers to. The second pass
+// settles times on the far side of a daylight saving change.
+export const zonedTimeToDate = (day: string, time: string, timeZone: string) => {
+  const [year, month, date] = day.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - zoneOffset(new Date(guess), timeZone) * 60000);
+};
+
+// The wall-clock time `date` shows in `timeZone`, e.g. "17:30"
+export const formatTimeInZone = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(date);
+
+// When the task is due: its due time in its own zone, or the end of the due
+// day wherever it is viewed for date-only tasks
+export const dueInstant = (task: Pick<Task, "dueDate" | "dueTime" | "timeZone">) => {
+  if (!task.dueDate) return null;
+  if (!task.dueTime) return endOfDay(fromDayKey(task.dueDate));
+  return zonedTimeToDate(task.dueDate, task.dueTime, task.timeZone ?? localTimeZone());
+};
+
+// The local day the task is due on, which differs from `dueDate` when the due
+// time was set in a zone far from the viewer's
+export const dueDay = (task: Task) => (task.dueTime ? toDayKey(dueInstant(task)) : task.dueDate);
+
+export const isOverdue = (task: Task, now: Date = new Date()) =>
+  !task.completed && Boolean(task.dueDate) && dueInstant(task) < now;
+
+// Moves a task to another local day, keeping its time of day and zone
+export const rescheduleDueDate = (task: Task, day: string) =>
+  task.dueDate
+    ? toDayKey(addDays(fromDayKey(task.dueDate), differenceInCalendarDays(fromDayKey(day), fromDayKey(dueDay(task)))))
+    : day;
+
+// "Nov 1, 2026" or "Nov 1, 2026, 5:30 PM", in the viewer's zone. A due time
+// set elsewhere also shows how it reads there.
+export const formatDue = (task: Task) => {
+  if (!task.dueDate) return "";
+  if (!task.dueTime) return format(fromDayKey(task.dueDate), "PP");
+  const instant = dueInstant(task);
+  const local = format(instant, "PP, p");
+  return task.timeZone && task.timeZone !== localTimeZone()
+    ? `${local} (${formatTimeInZone(instant, task.timeZone)} ${task.timeZone})`
+    : local;
+};
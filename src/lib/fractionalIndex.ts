@@ -0,0 +1,153 @@
+// Fractional indexing: order keys are strings that sort by plain code-unit
+// comparison, and a new key can always be generated between any two others,
+// so moving an item only ever rewrites that one item.
+//
+// A key is an integer part followed by an optional fraction. The integer
+// part's first character encodes its length ("a" = 2 characters, "b" = 3, ...
+// and "Z", "Y", ... for negatives), which keeps keys short when items are
+// repeatedly added at either end. Same scheme as David Greenspan's
+// "Implementing Fractional Indexing".
+
+const DIGITS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const ZERO = DIGITS[0];
+const SMALLEST_INTEGER = `A${ZERO.repeat(26)}`;
+
+export const compareOrderKeys = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const integerLength = (head: string) => {
+  if (head >= "a" && head <= "z") return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  if (head >= "A" && head <= "Z") return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  throw new Error(`Invalid order key head "${head}"`);
+};
+
+const integerPart = (key: string) => {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+  return key.slice(0, length);
+};
+
+const validateKey = (key: string) => {
+  if (key === SMALLEST_INTEGER) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+  const fraction = key.slice(integerPart(key).length);
+  if (fraction.endsWith(ZERO)) {
+    throw new Error(`Invalid order key "${key}"`);
+  }
+};
+
+// A fraction strictly between a and b (b = null means "no upper bound")
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let shared = 0;
+    while ((a[shared] ?? ZERO) === b[shared]) shared++;
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+    }
+  }
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+const incrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer.split("");
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit === DIGITS.length) {
+      digits[i] = ZERO;
+    } else {
+      digits[i] = DIGITS[digit];
+      carry = false;
+    }
+  }
+  if (!carry) return head + digits.join("");
+  if (head === "Z") return `a${ZERO}`;
+  if (head === "z") return null;
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push(ZERO);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+};
+
+const decrementInteger = (integer: string): string | null => {
+  const [head, ...digits] = integer.split("");
+  const largest = DIGITS[DIGITS.length - 1];
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit === -1) {
+      digits[i] = largest;
+    } else {
+      digits[i] = DIGITS[digit];
+      borrow = false;
+    }
+  }
+  if (!borrow) return head + digits.join("");
+  if (head === "a") return `Z${largest}`;
+  if (head === "A") return null;
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < "Z") {
+    digits.push(largest);
+  } else {
+    digits.pop();
+  }
+  return previousHead + digits.join("");
+};
+
+// A key that sorts after `before` and before `after`; either may be null for
+// an open end. Throws if before >= after.
+export const generateKeyBetween = (before: string | null, after: string | null): string => {
+  if (before !== null) validateKey(before);
+  if (after !== null) validateKey(after);
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order key "${before}" is not before "${after}"`);
+  }
+
+  if (before === null) {
+    if (after === null) return `a${ZERO}`;
+    const integer = integerPart(after);
+    if (integer === SMALLEST_INTEGER) return integer + midpoint("", after.slice(integer.length));
+    if (integer < after) return integer;
+    const decremented = decrementInteger(integer);
+    if (decremented === null) throw new Error("Order keys exhausted");
+    return decremented;
+  }
+
+  const beforeInteger = integerPart(before);
+  const beforeFraction = before.slice(beforeInteger.length);
+
+  if (after === null) {
+    const incremented = incrementInteger(beforeInteger);
+    return incremented ?? beforeInteger + midpoint(beforeFraction, null);
+  }
+
+  const afterInteger = integerPart(after);
+  if (beforeInteger === afterInteger) {
+    return beforeInteger + midpoint(beforeFraction, after.slice(afterInteger.length));
+  }
+  const incremented = incrementInteger(beforeInteger);
+  if (incremented === null) throw new Error("Order keys exhausted");
+  return incremented < after ? incremented : beforeInteger + midpoint(beforeFraction, null);
+};
+
+// `count` ascending keys, each generated after the previous one
+export const generateKeys = (count: number, after: string | null = null): string[] => {
+  const keys: string[] = [];
+  for (let i = 0; i < count; i++) {
+    keys.push(generateKeyBetween(keys[i - 1] ?? after, null));
+  }
+  return keys;
+};
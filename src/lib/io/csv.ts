@@ -0,0 +1,376 @@
+import { z } from "zod";
+import { isValid } from "date-fns";
+import { taskSchema, type Priority, type Task } from "@/types/Task";
+import type { Project } from "@/types/Project";
+import type { Tag } from "@/types/Tag";
+import type { Workflow } from "@/types/Workflow";
+import { csvColumnSchema, type CsvColumn } from "@/types/Csv";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { orderKeysAtEnd } from "@/lib/sorting";
+import { isTimeZone, localTimeZone } from "@/lib/dueDates";
+import { formatPriority } from "@/lib/badges";
+import { resolveTags } from "@/lib/tags";
+import { getTaskStatus, getWorkflow } from "@/lib/workflows";
+import { createTagResolver, type ImportData } from "./importPlan";
+
+type CsvDelimiter = "," | ";" | "\t";
+
+// Spreadsheets in locales with a decimal comma save with semicolons
+const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates: CsvDelimiter[] = [",", ";", "\t"];
+  const count = (delimiter: string) => firstLine.split(delimiter).length;
+  return candidates.reduce((best, candidate) => (count(candidate) > count(best) ? candidate : best));
+};
+
+export interface CsvTable {
+  rows: string[][];
+  // The line of the file each row starts on, 1-based. Blank lines and line
+  // breaks inside quoted cells make these differ from the row positions.
+  lines: number[];
+}
+
+// RFC 4180: quoted cells may hold delimiters, doubled quotes and line breaks.
+// Blank lines are dropped.
+export const parseCsv = (text: string): CsvTable => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) {
+      rows.push(row);
+      lines.push(rowStart);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+        if (char === "\n" || (char === "\r" && source[i + 1] !== "\n")) line++;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return { rows, lines };
+};
+
+export type CsvField = "title" | "description" | "priority" | "dueDate" | "dueTime" | "timeZone" | "completed" | "tags";
+
+export const CSV_FIELD_LABELS: Record<CsvField, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  timeZone: "Time zone",
+  completed: "Completed",
+  tags: "Tags",
+};
+
+// Index of the column each field is read from; null skips the field
+export type ColumnMapping = Record<CsvField, number | null>;
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  title: ["title", "name", "task", "summary", "subject"],
+  description: ["description", "notes", "details", "body"],
+  priority: ["priority", "prio", "importance"],
+  dueDate: ["duedate", "due", "deadline", "date"],
+  dueTime: ["duetime", "time"],
+  timeZone: ["timezone", "zone", "tz"],
+  completed: ["completed", "done", "complete", "finished"],
+  tags: ["tags", "tag", "labels", "categories"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "");
+
+// Matches header names like "Due date" or "Deadline" to fields
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const find = (field: CsvField) => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    return index === -1 ? null : index;
+  };
+  return {
+    title: find("title") ?? (headers.length > 0 ? 0 : null),
+    description: find("description"),
+    priority: find("priority"),
+    dueDate: find("dueDate"),
+    dueTime: find("dueTime"),
+    timeZone: find("timeZone"),
+    completed: find("completed"),
+    tags: find("tags"),
+  };
+};
+
+type DatePart = "day" | "month" | "year";
+
+// The order day, month and year are written in for `locale`, e.g. day first for "en-GB"
+export const dateOrderForLocale = (locale: string): DatePart[] =>
+  new Intl.DateTimeFormat(locale, { day: "numeric", month: "numeric", year: "numeric" })
+    .formatToParts(new Date(2026, 10, 22))
+    .map(part => part.type)
+    .filter((type): type is DatePart => type === "day" || type === "month" || type === "year");
+
+// How `locale` writes a date, shown next to the locale picker
+export const formatDateExample = (locale: string) =>
+  new Intl.DateTimeFormat(locale, { day: "2-digit", month: "2-digit", year: "numeric" }).format(new Date(2026, 10, 22));
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+type DueCell = Pick<Task, "dueDate" | "dueTime" | "timeZone">;
+
+// ISO dates are read as such; other numeric dates in the locale's order.
+// A trailing "HH:mm" becomes a due time in the local zone.
+export const parseDueCell = (cell: string, locale: string): DueCell | null => {
+  const value = cell.trim();
+  if (value === "") return {};
+
+  const time = value.match(/[T\s,]+(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/);
+  const datePart = time ? value.slice(0, time.index) : value;
+  let year: number, month: number, day: number;
+
+  const iso = datePart.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (iso) {
+    [year, month, day] = iso.slice(1).map(Number);
+  } else {
+    const numeric = datePart.match(/^(\d{1,4})[./\-\s](\d{1,2})[./\-\s](\d{1,4})\.?$/);
+    if (!numeric) return null;
+    const parts: Partial<Record<DatePart, number>> = {};
+    dateOrderForLocale(locale).forEach((part, index) => (parts[part] = Number(numeric[index + 1])));
+    ({ year, month, day } = parts as Record<DatePart, number>);
+    if (year < 100) year += 2000;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (!isValid(date) || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  const dueDate = `${year}-${pad(month)}-${pad(day)}`;
+  if (!time) return { dueDate };
+  const [hours, minutes] = [Number(time[1]), Number(time[2])];
+  if (hours > 23 || minutes > 59) return null;
+  return { dueDate, dueTime: `${pad(hours)}:${pad(minutes)}`, timeZone: localTimeZone() };
+};
+
+// "17:30", or "9:05:00" as spreadsheets write times
+const parseTimeCell = (cell: string) => {
+  const match = cell.match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  return hours > 23 || minutes > 59 ? null : `${pad(hours)}:${pad(minutes)}`;
+};
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+  high: "high",
+  h: "high",
+  "1": "high",
+  medium: "medium",
+  med: "medium",
+  m: "medium",
+  normal: "medium",
+  "2": "medium",
+  low: "low",
+  l: "low",
+  "3": "low",
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x", "done", "completed", "✓"];
+const FALSE_VALUES = ["false", "no", "n", "0", "", "open", "todo"];
+
+// Exports guard formula-like cells with a leading apostrophe; see escapeCell
+const unguard = (cell: string) => (/^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell);
+
+export interface CsvImportOptions {
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  // Locale the file's dates are written in
+  locale: string;
+  projectId: string;
+}
+
+export interface CsvRowError {
+  // The line of the file the row starts on, 1-based
+  row: number;
+  cells: string[];
+  errors: string[];
+}
+
+// Turns mapped rows into tasks for the import preview. Rows are appended after
+// `existing` in file order; tags are matched by name or created.
+export const csvToImportData = (
+  { rows, lines }: CsvTable,
+  options: CsvImportOptions,
+  existing: { tasks: Task[]; tags: Tag[] },
+  now: Date = new Date()
+): { data: ImportData; rowErrors: CsvRowError[] } => {
+  const { mapping, hasHeader, locale, projectId } = options;
+  const body = hasHeader ? rows.slice(1) : rows;
+  const bodyLines = hasHeader ? lines.slice(1) : lines;
+  const orders = orderKeysAtEnd(existing.tasks, body.length);
+  const tagResolver = createTagResolver(existing.tags);
+  const tasks: Task[] = [];
+  const rowErrors: CsvRowError[] = [];
+
+  const cellOf = (cells: string[], field: CsvField) =>
+    mapping[field] === null ? "" : unguard((cells[mapping[field]] ?? "").trim());
+
+  body.forEach((cells, index) => {
+    const row = bodyLines[index];
+    const errors: string[] = [];
+
+    const priorityCell = cellOf(cells, "priority").toLowerCase();
+    const priority = priorityCell === "" ? "medium" : PRIORITY_ALIASES[priorityCell];
+    if (!priority) errors.push(`Priority "${cellOf(cells, "priority")}" isn't high, medium or low.`);
+
+    const completedCell = cellOf(cells, "completed").toLowerCase();
+    const completed = TRUE_VALUES.includes(completedCell);
+    if (!completed && !FALSE_VALUES.includes(completedCell)) {
+      errors.push(`Completed "${cellOf(cells, "completed")}" isn't yes or no.`);
+    }
+
+    // A time in the date cell is overridden by a time column, and either
+    // by a zone column
+    let due = parseDueCell(cellOf(cells, "dueDate"), locale);
+    if (!due) errors.push(`Due date "${cellOf(cells, "dueDate")}" isn't a date like ${formatDateExample(locale)}.`);
+    const timeCell = cellOf(cells, "dueTime");
+    if (due?.dueDate && timeCell) {
+      const dueTime = parseTimeCell(timeCell);
+      if (dueTime) due = { ...due, dueTime, timeZone: due.timeZone ?? localTimeZone() };
+      else errors.push(`Due time "${timeCell}" isn't a time like 17:30.`);
+    }
+    const zoneCell = cellOf(cells, "timeZone");
+    if (due?.dueTime && zoneCell) {
+      if (isTimeZone(zoneCell)) due = { ...due, timeZone: zoneCell };
+      else errors.push(`Time zone "${zoneCell}" isn't one this browser knows.`);
+    }
+
+    const tagNames = cellOf(cells, "tags").split(/[,;|]/).map(name => name.trim()).filter(Boolean);
+    const description = cellOf(cells, "description");
+
+    if (errors.length === 0) {
+      // Status ids of the default workflow; the import maps them onto the project's
+      const parsed = taskSchema.safeParse({
+        id: crypto.randomUUID(),
+        title: cellOf(cells, "title"),
+        description: description || undefined,
+        priority,
+        ...due,
+        tags: tagNames.length > 0 ? [...new Set(tagNames.map(tagResolver.idFor))] : undefined,
+        projectId,
+        order: orders[index],
+        status: completed ? "done" : "todo",
+        completed,
+        createdAt: now.toISOString(),
+      });
+      if (parsed.success) {
+        tasks.push(parsed.data);
+      } else {
+        errors.push(...parsed.error.issues.map(issue => issue.message));
+      }
+    }
+
+    if (errors.length > 0) rowErrors.push({ row, cells, errors });
+  });
+
+  return {
+    data: {
+      tasks,
+      rejected: rowErrors.map(({ row, cells, errors }) => ({ record: cells, reason: `Line ${row}: ${errors.join(" ")}` })),
+      projects: [],
+      tags: tagResolver.used(tasks),
+      workflows: {},
+    },
+    rowErrors,
+  };
+};
+
+
+export const CSV_COLUMN_LABELS: Record<CsvColumn, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  status: "Status",
+  completed: "Completed",
+  dueDate: "Due date",
+  dueTime: "Due time",
+  timeZone: "Time zone",
+  tags: "Tags",
+  project: "Project",
+  createdAt: "Created",
+};
+
+// The columns picked for the last export
+export const csvColumnStore = createLocalStore<CsvColumn[]>({
+  key: "csv-columns",
+  schema: z.array(csvColumnSchema),
+  fallback: ["title", "description", "priority", "status", "dueDate", "tags"],
+});
+
+export interface CsvExportContext {
+  projects: Project[];
+  tags: Tag[];
+  workflows: Record<string, Workflow>;
+}
+
+// Quotes cells that need it. Cells a spreadsheet would run as a formula get
+// a leading apostrophe, which the import strips again.
+const escapeCell = (value: string) => {
+  const guarded = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",;\t\r\n]|^\s|\s$/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+};
+
+const cellFor = (task: Task, column: CsvColumn, { projects, tags, workflows }: CsvExportContext): string => {
+  switch (column) {
+    case "priority":
+      return formatPriority(task.priority);
+    case "status":
+      return getTaskStatus(getWorkflow(workflows, task.projectId), task).name;
+    case "completed":
+      return task.completed ? "Yes" : "No";
+    case "tags":
+      return resolveTags(tags, task.tags).map(tag => tag.name).join(", ");
+    case "project":
+      return projects.find(project => project.id === task.projectId)?.name ?? "";
+    case "timeZone":
+      return task.dueTime ? (task.timeZone ?? "") : "";
+    default:
+      return task[column] ?? "";
+  }
+};
+
+// Dates stay ISO so any locale reads them back the same. CRLF line ends, as
+// RFC 4180 and Excel expect.
+export const tasksToCsv = (tasks: Task[], columns: CsvColumn[], context: CsvExportContext) =>
+  [
+    columns.map(column => CSV_COLUMN_LABELS[column]),
+    ...tasks.map(task => columns.map(column => cellFor(task, column, context))),
+  ]
+    .map(cells => cells.map(escapeCell).join(","))
+    .join("\r\n");
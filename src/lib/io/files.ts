@@ -0,0 +1,15 @@
+// Saves `content` through a temporary link, which is how browsers download
+// generated files
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// "tasks-2026-10-19.json"
+export const exportFilename = (extension: string, now: Date = new Date()) =>
+  `tasks-${now.toISOString().substring(0, 10)}.${extension}`;
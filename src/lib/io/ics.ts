@@ -0,0 +1,257 @@
+import { format } from "date-fns";
+import { DESCRIPTION_MAX_LENGTH, TITLE_MAX_LENGTH, taskSchema, type Priority, type Task } from "@/types/Task";
+import type { Tag } from "@/types/Tag";
+import { dueInstant, isTimeZone, localTimeZone, toDayKey } from "@/lib/dueDates";
+import { formatRule, parseRule } from "@/lib/recurrence";
+import { DEFAULT_PROJECT_ID } from "@/lib/projects";
+import { orderKeysAtEnd } from "@/lib/sorting";
+import { resolveTags } from "@/lib/tags";
+import { getTaskStatus, getWorkflow } from "@/lib/workflows";
+import type { Workflow } from "@/types/Workflow";
+import { createTagResolver, type ImportData, type RejectedRecord } from "./importPlan";
+
+// iCalendar (RFC 5545) lines are at most 75 octets; longer ones continue on
+// lines starting with a space
+const MAX_LINE_OCTETS = 75;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  for (const char of line) {
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  return [...lines, current].join("\r\n ");
+};
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest)
+const PRIORITY_VALUES: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+const toPriority = (value: string): Priority => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number === 0) return "medium";
+  if (number <= 4) return "high";
+  return number === 5 ? "medium" : "low";
+};
+
+// Timed tasks carry their zone as an IANA TZID, which calendar and to-do apps
+// resolve without VTIMEZONE definitions
+const dueProperty = (name: "DUE" | "DTSTART", task: Task) => {
+  const day = task.dueDate.replace(/-/g, "");
+  if (!task.dueTime) return `${name};VALUE=DATE:${day}`;
+  const time = `${task.dueTime.replace(":", "")}00`;
+  return `${name};TZID=${task.timeZone ?? localTimeZone()}:${day}T${time}`;
+};
+
+// iCalendar repeats from the start date only. Whether the next occurrence
+// counts from completion instead goes in a property of our own, which other
+// apps ignore.
+const FROM_COMPLETION_PROPERTY = "X-TASK-MANAGER-FROM-COMPLETION";
+
+const todoStatus = (task: Task, workflows: Record<string, Workflow>) => {
+  if (task.completed) return "COMPLETED";
+  return getTaskStatus(getWorkflow(workflows, task.projectId), task).category === "active" ? "IN-PROCESS" : "NEEDS-ACTION";
+};
+
+// One VTODO per task with a due date. The task id is the UID, so importing
+// the file again finds the same tasks.
+export const tasksToIcs = (
+  tasks: Task[],
+  { tags, workflows }: { tags: Tag[]; workflows: Record<string, Workflow> },
+  now: Date = new Date()
+) => {
+  const todos = tasks
+    .filter(task => task.dueDate)
+    .flatMap(task => {
+      const categories = resolveTags(tags, task.tags).map(tag => escapeText(tag.name));
+      return [
+        "BEGIN:VTODO",
+        `UID:${task.id}`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `CREATED:${formatUtc(new Date(task.createdAt))}`,
+        `SUMMARY:${escapeText(task.title)}`,
+        task.description && `DESCRIPTION:${escapeText(task.description)}`,
+        `PRIORITY:${PRIORITY_VALUES[task.priority]}`,
+        `STATUS:${todoStatus(task, workflows)}`,
+        dueProperty("DUE", task),
+        // A recurrence rule needs a start; occurrences start on their due date
+        task.recurrence && dueProperty("DTSTART", task),
+        task.recurrence && `RRULE:${task.recurrence.rule}`,
+        task.recurrence?.fromCompletion && `${FROM_COMPLETION_PROPERTY}:TRUE`,
+        categories.length > 0 && `CATEGORIES:${categories.join(",")}`,
+        "END:VTODO",
+      ].filter(Boolean) as string[];
+    });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Task Manager//Tasks//EN",
+    "CALSCALE:GREGORIAN",
+    ...todos,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// "DUE;TZID=Europe/Berlin:20261122T173000". The value starts at the first
+// colon outside a quoted parameter value.
+const parseContentLine = (line: string): ContentLine | null => {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length && colon === -1; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) colon = i;
+  }
+  if (colon <= 0) return null;
+  const [name, ...params] = line.slice(0, colon).split(";");
+  return {
+    name: name.toUpperCase(),
+    params: Object.fromEntries(
+      params.map(param => {
+        const [key, ...value] = param.split("=");
+        return [key.toUpperCase(), value.join("=").replace(/^"|"$/g, "")];
+      })
+    ),
+    value: line.slice(colon + 1),
+  };
+};
+
+type DueFields = Pick<Task, "dueDate" | "dueTime" | "timeZone">;
+
+// Dates stay dates. UTC times are moved into the local zone; floating times
+// and zones the browser doesn't know are read as local.
+const parseDateValue = ({ params, value }: ContentLine): DueFields | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})\d{2}(Z)?)?$/);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, utc] = match;
+  const dueDate = `${year}-${month}-${day}`;
+  if (!hours || params.VALUE === "DATE") return { dueDate };
+  if (utc) {
+    const instant = new Date(`${dueDate}T${hours}:${minutes}:00Z`);
+    return { dueDate: toDayKey(instant), dueTime: format(instant, "HH:mm"), timeZone: localTimeZone() };
+  }
+  const zone = params.TZID && isTimeZone(params.TZID) ? params.TZID : localTimeZone();
+  return { dueDate, dueTime: `${hours}:${minutes}`, timeZone: zone };
+};
+
+const parseTimestamp = (line: ContentLine | undefined) => {
+  const due = line && parseDateValue(line);
+  if (!due?.dueDate) return null;
+  const date = due.dueTime ? dueInstant(due) : new Date(`${due.dueDate}T00:00:00`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Rules the task model can't repeat are dropped; the task itself still imports
+const toRecurrence = (line: ContentLine | undefined, fromCompletion: ContentLine | undefined) => {
+  if (!line) return undefined;
+  try {
+    const rule = formatRule(parseRule(line.value));
+    return fromCompletion?.value.toUpperCase() === "TRUE" ? { rule, fromCompletion: true } : { rule };
+  } catch {
+    return undefined;
+  }
+};
+
+// Reads the VTODO and VEVENT items of an .ics file into inbox tasks. Items
+// without a UID get a new id; events are due when they start.
+export const parseIcs = (
+  text: string,
+  existing: { tasks: Task[]; tags: Tag[] },
+  now: Date = new Date()
+): ImportData | null => {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map(parseContentLine)
+    .filter(Boolean);
+  if (lines[0]?.name !== "BEGIN" || lines[0].value.toUpperCase() !== "VCALENDAR") return null;
+
+  // Properties of each item, by name; repeated ones (CATEGORIES) are kept
+  const items: { kind: string; properties: ContentLine[] }[] = [];
+  let current: { kind: string; properties: ContentLine[] } | null = null;
+  let depth = 0;
+  for (const line of lines) {
+    const kind = line.value.toUpperCase();
+    if (line.name === "BEGIN") {
+      if (depth === 0 && (kind === "VTODO" || kind === "VEVENT")) current = { kind, properties: [] };
+      if (current) depth++;
+    } else if (line.name === "END" && current) {
+      depth--;
+      if (depth === 0) {
+        items.push(current);
+        current = null;
+      }
+    } else if (current && depth === 1) {
+      // Properties of nested components such as VALARM are skipped
+      current.properties.push(line);
+    }
+  }
+
+  const orders = orderKeysAtEnd(existing.tasks, items.length);
+  const tagResolver = createTagResolver(existing.tags);
+  const tasks: Task[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  items.forEach(({ kind, properties }, index) => {
+    const get = (name: string) => properties.find(property => property.name === name);
+    const text = (name: string) => (get(name) ? unescapeText(get(name).value) : "");
+    const due = get(kind === "VTODO" ? "DUE" : "DTSTART") ?? get("DTSTART");
+    const dueFields = due ? parseDateValue(due) : {};
+    const completed = kind === "VTODO" && (text("STATUS").toUpperCase() === "COMPLETED" || Boolean(get("COMPLETED")));
+    const tagNames = properties
+      .filter(property => property.name === "CATEGORIES")
+      .flatMap(property => property.value.split(/(?<!\\),/))
+      .map(name => unescapeText(name).trim())
+      .filter(Boolean);
+    const description = text("DESCRIPTION").slice(0, DESCRIPTION_MAX_LENGTH);
+
+    // Status ids of the default workflow; the import maps them onto the project's
+    const parsed = taskSchema.safeParse({
+      id: text("UID") || crypto.randomUUID(),
+      title: text("SUMMARY").trim().slice(0, TITLE_MAX_LENGTH),
+      description: description || undefined,
+      priority: toPriority(text("PRIORITY")),
+      ...dueFields,
+      recurrence: dueFields?.dueDate ? toRecurrence(get("RRULE"), get(FROM_COMPLETION_PROPERTY)) : undefined,
+      tags: tagNames.length > 0 ? [...new Set(tagNames.map(tagResolver.idFor))] : undefined,
+      projectId: DEFAULT_PROJECT_ID,
+      order: orders[index],
+      status: completed ? "done" : text("STATUS").toUpperCase() === "IN-PROCESS" ? "in_progress" : "todo",
+      completed,
+      createdAt: parseTimestamp(get("CREATED")) ?? parseTimestamp(get("DTSTAMP")) ?? now.toISOString(),
+    });
+    if (!dueFields) {
+      rejected.push({ record: properties, reason: `"${text("SUMMARY")}": the due date isn't a date` });
+    } else if (parsed.success) {
+      tasks.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      rejected.push({ record: properties, reason: `"${text("SUMMARY") || "Untitled"}": ${issue.message}` });
+    }
+  });
+
+  return { tasks, rejected, projects: [], tags: tagResolver.used(tasks), workflows: {} };
+};
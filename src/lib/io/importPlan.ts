@@ -0,0 +1,156 @@
+import type { Project } from "@/types/Project";
+import type { Tag } from "@/types/Tag";
+import type { Task } from "@/types/Task";
+import type { Workflow } from "@/types/Workflow";
+import { replacementChanges, stableJson, type TaskOperation } from "@/lib/storage";
+import { DEFAULT_PROJECT_ID } from "@/lib/projects";
+import { compareOrderKeys } from "@/lib/fractionalIndex";
+import { orderKeysAtEnd } from "@/lib/sorting";
+import { createTag, findTagByName } from "@/lib/tags";
+import { DEFAULT_WORKFLOW, getWorkflow, mapStatusToWorkflow } from "@/lib/workflows";
+
+// What to do with an imported task whose id is already in the workspace
+export type ConflictStrategy = "skip" | "overwrite" | "keep-both";
+
+export const CONFLICT_STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  skip: "Skip them",
+  overwrite: "Overwrite with the imported version",
+  "keep-both": "Keep both",
+};
+
+export interface RejectedRecord {
+  record: unknown;
+  reason: string;
+}
+
+// Everything an import file yielded, whatever its format
+export interface ImportData {
+  tasks: Task[];
+  // Records that couldn't be read as tasks
+  rejected: RejectedRecord[];
+  projects: Project[];
+  tags: Tag[];
+  // Customised workflows keyed by project id
+  workflows: Record<string, Workflow>;
+}
+
+export interface Workspace {
+  tasks: Task[];
+  projects: Project[];
+  tags: Tag[];
+  workflows: Record<string, Workflow>;
+}
+
+export type ImportOutcome = "add" | "update" | "skip";
+
+export interface ImportPlanEntry {
+  // The task as it will be written
+  task: Task;
+  outcome: ImportOutcome;
+  // Why a task is skipped
+  reason?: string;
+}
+
+export interface ImportPlan {
+  entries: ImportPlanEntry[];
+  rejected: RejectedRecord[];
+  // Only what the workspace doesn't have yet
+  projects: Project[];
+  tags: Tag[];
+  workflows: Record<string, Workflow>;
+  operations: TaskOperation[];
+}
+
+// Turns tag names from an import file into ids, creating the tags that don't
+// exist yet. Pass `used` the imported tasks to get the created tags they carry.
+export const createTagResolver = (existing: Tag[]) => {
+  const created: Tag[] = [];
+  const idFor = (name: string) => {
+    const known = findTagByName([...existing, ...created], name);
+    if (known) return known.id;
+    const tag = createTag([...existing, ...created], name);
+    created.push(tag);
+    return tag.id;
+  };
+  const used = (tasks: Task[]) => created.filter(tag => tasks.some(task => task.tags?.includes(tag.id)));
+  return { idFor, used };
+};
+
+// Works out what importing `data` into `workspace` does, without writing
+// anything, so it can be previewed. Tags are matched by id, then by name;
+// projects by id. Tasks of unknown projects go to the inbox, and statuses are
+// mapped onto the workflow of the project they land in.
+export const planImport = (data: ImportData, workspace: Workspace, strategy: ConflictStrategy): ImportPlan => {
+  const tagIds = new Map<string, string>();
+  const tags: Tag[] = [];
+  for (const tag of data.tags) {
+    const existing = workspace.tags.find(candidate => candidate.id === tag.id) ?? findTagByName([...workspace.tags, ...tags], tag.name);
+    if (existing) {
+      tagIds.set(tag.id, existing.id);
+    } else {
+      tags.push(tag);
+    }
+  }
+
+  const projects = data.projects.filter(
+    (project, index) =>
+      !workspace.projects.some(candidate => candidate.id === project.id) &&
+      data.projects.findIndex(candidate => candidate.id === project.id) === index
+  );
+  const workflows = Object.fromEntries(
+    projects.filter(project => data.workflows[project.id]).map(project => [project.id, data.workflows[project.id]])
+  );
+  const allWorkflows = { ...workspace.workflows, ...workflows };
+  const projectIds = new Set([...workspace.projects, ...projects].map(project => project.id));
+
+  const adapt = (task: Task): Task => {
+    const projectId = projectIds.has(task.projectId) ? task.projectId : DEFAULT_PROJECT_ID;
+    const status = mapStatusToWorkflow(
+      task,
+      data.workflows[task.projectId] ?? DEFAULT_WORKFLOW,
+      getWorkflow(allWorkflows, projectId)
+    );
+    return {
+      ...task,
+      projectId,
+      status: status.id,
+      completed: status.category === "done",
+      tags: task.tags?.map(id => tagIds.get(id) ?? id),
+    };
+  };
+
+  const existingById = new Map(workspace.tasks.map(task => [task.id, task]));
+  const seen = new Set<string>();
+  const planned = data.tasks.map((imported): ImportPlanEntry => {
+    const task = adapt(imported);
+    if (seen.has(task.id)) return { task, outcome: "skip", reason: "Appears earlier in the file" };
+    seen.add(task.id);
+
+    const existing = existingById.get(task.id);
+    if (!existing) return { task, outcome: "add" };
+    // An overwritten task keeps its place; the file's key may belong to
+    // another task here
+    const overwrite = { ...task, order: existing.order };
+    if (stableJson(existing) === stableJson(overwrite)) return { task, outcome: "skip", reason: "Already up to date" };
+    if (strategy === "overwrite") return { task: overwrite, outcome: "update" };
+    if (strategy === "keep-both") return { task: { ...task, id: crypto.randomUUID() }, outcome: "add" };
+    return { task, outcome: "skip", reason: "Already in the workspace" };
+  });
+
+  // Order keys from the file would collide with the workspace's, so added
+  // tasks go below every existing one, in the order they had in the file
+  const added = planned.filter(entry => entry.outcome === "add").sort((a, b) => compareOrderKeys(a.task.order, b.task.order));
+  const keys = orderKeysAtEnd(workspace.tasks, added.length);
+  const orders = new Map(added.map((entry, index) => [entry, keys[index]]));
+  const entries = planned.map(entry => (orders.has(entry) ? { ...entry, task: { ...entry.task, order: orders.get(entry) } } : entry));
+
+  const operations = entries.flatMap((entry): TaskOperation[] => {
+    if (entry.outcome === "add") return [{ type: "create", task: entry.task }];
+    if (entry.outcome === "update") {
+      return [{ type: "update", id: entry.task.id, changes: replacementChanges(existingById.get(entry.task.id), entry.task) }];
+    }
+    return [];
+  });
+
+  return { entries, rejected: data.rejected, projects, tags, workflows, operations };
+};
@@ -0,0 +1,56 @@
+import { WORKSPACE_FILE_FORMAT, WORKSPACE_FILE_VERSION, workspaceFileSchema, type WorkspaceFile } from "@/types/Workspace";
+import { CURRENT_SCHEMA_VERSION, migrateTasks } from "@/lib/storage/migrations";
+import type { ImportData, Workspace } from "./importPlan";
+
+export const createWorkspaceFile = (workspace: Workspace, now: Date = new Date()): WorkspaceFile => ({
+  format: WORKSPACE_FILE_FORMAT,
+  version: WORKSPACE_FILE_VERSION,
+  exportedAt: now.toISOString(),
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  tasks: workspace.tasks,
+  projects: workspace.projects,
+  tags: workspace.tags,
+  workflows: workspace.workflows,
+});
+
+export const serializeWorkspace = (workspace: Workspace, now?: Date) =>
+  JSON.stringify(createWorkspaceFile(workspace, now), null, 2);
+
+export type WorkspaceParseResult = { success: true; data: ImportData } | { success: false; error: string };
+
+// Reads an exported workspace. Tasks from older exports are upgraded like
+// stored ones; records that still don't validate are rejected one by one.
+export const parseWorkspaceFile = (text: string): WorkspaceParseResult => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: "The file isn't valid JSON." };
+  }
+
+  const parsed = workspaceFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue?.path.join(".");
+    return {
+      success: false,
+      error: field ? `Not a workspace export (${field}: ${issue.message})` : "Not a workspace export.",
+    };
+  }
+
+  const file = parsed.data;
+  if (file.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { success: false, error: "The file was exported by a newer version of the app." };
+  }
+  const { tasks, report } = migrateTasks({ version: file.schemaVersion, tasks: file.tasks });
+  return {
+    success: true,
+    data: {
+      tasks,
+      rejected: report.quarantined.map(({ record, reason }) => ({ record, reason })),
+      projects: file.projects,
+      tags: file.tags,
+      workflows: file.workflows,
+    },
+  };
+};
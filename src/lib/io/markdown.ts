@@ -0,0 +1,169 @@
+import { DESCRIPTION_MAX_LENGTH, TITLE_MAX_LENGTH, taskSchema, type Priority, type Subtask, type Task } from "@/types/Task";
+import { orderKeysAtEnd } from "@/lib/sorting";
+import { resolveTags } from "@/lib/tags";
+import { createSubtask } from "@/lib/subtasks";
+import { createTagResolver, type ImportData, type RejectedRecord } from "./importPlan";
+import {
+  dueTokens,
+  isDueToken,
+  parseTodoTxt,
+  readDueTokens,
+  splitKeyValue,
+  type PlainTextExportContext,
+  type PlainTextImportContext,
+} from "./todoTxt";
+
+// Each nesting level of a list is indented by two spaces
+const INDENT = "  ";
+
+// "- [ ] title", "* [x] title", "1. title"; the checkbox is optional
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/;
+
+const HEADING = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+// Medium is the default and isn't written
+const PRIORITY_MARKERS: Partial<Record<Priority, string>> = { high: "!high", low: "!low" };
+
+const indentWidth = (whitespace: string) => whitespace.replace(/\t/g, INDENT).length;
+
+const subtaskLines = (subtasks: Subtask[] = [], depth: number): string[] =>
+  subtasks.flatMap(subtask => [
+    `${INDENT.repeat(depth)}- [${subtask.completed ? "x" : " "}] ${subtask.title}`,
+    ...subtaskLines(subtask.subtasks, depth + 1),
+  ]);
+
+// "- [ ] Call the bank !high #phone due:2026-11-01", the description indented
+// below it, then the subtasks as a nested checklist
+export const taskToMarkdown = (task: Task, { tags }: Pick<PlainTextExportContext, "tags">) =>
+  [
+    [
+      `- [${task.completed ? "x" : " "}]`,
+      task.title,
+      PRIORITY_MARKERS[task.priority],
+      ...resolveTags(tags, task.tags).map(tag => `#${tag.name}`),
+      ...dueTokens(task),
+    ]
+      .filter(Boolean)
+      .join(" "),
+    ...(task.description ? task.description.split(/\r?\n/).map(line => (line ? `${INDENT}${line}` : "")) : []),
+    ...subtaskLines(task.subtasks, 1),
+  ].join("\n");
+
+// One section per project, headed by its name, in the order of the project list
+export const tasksToMarkdown = (tasks: Task[], context: PlainTextExportContext) =>
+  context.projects
+    .map(project => ({ project, tasks: tasks.filter(task => task.projectId === project.id) }))
+    .filter(section => section.tasks.length > 0)
+    .map(({ project, tasks }) => [`# ${project.name}`, "", ...tasks.map(task => taskToMarkdown(task, context))].join("\n"))
+    .join("\n\n")
+    .concat("\n");
+
+interface DraftTask {
+  line: string;
+  indent: number;
+  completed: boolean;
+  text: string;
+  projectId: string;
+  description: string[];
+  subtasks: Subtask[];
+}
+
+// Each top-level list item is a task and the items nested under it are its
+// subtasks. Other indented lines make up the description; headings naming a
+// project send the tasks below them there.
+export const parseMarkdown = (text: string, { workspace, projectId }: PlainTextImportContext, now: Date = new Date()): ImportData => {
+  const drafts: DraftTask[] = [];
+  let sectionProjectId = projectId;
+  // The open subtasks of the current task, innermost last
+  let stack: { indent: number; subtask: Subtask }[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(HEADING);
+    const item = line.match(LIST_ITEM);
+    const current = drafts[drafts.length - 1];
+    if (heading) {
+      const name = heading[1].toLowerCase();
+      sectionProjectId = workspace.projects.find(project => project.name.trim().toLowerCase() === name)?.id ?? projectId;
+      stack = [];
+    } else if (item && (!current || indentWidth(item[1]) <= current.indent)) {
+      drafts.push({
+        line,
+        indent: indentWidth(item[1]),
+        completed: item[2] === "x" || item[2] === "X",
+        text: item[3],
+        projectId: sectionProjectId,
+        description: [],
+        subtasks: [],
+      });
+      stack = [];
+    } else if (item && current) {
+      const indent = indentWidth(item[1]);
+      const subtask = { ...createSubtask(item[3].slice(0, TITLE_MAX_LENGTH)), completed: item[2] === "x" || item[2] === "X" };
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+      const parent = stack[stack.length - 1]?.subtask;
+      if (!subtask.title) continue;
+      if (parent) {
+        parent.subtasks = [...(parent.subtasks ?? []), subtask];
+      } else {
+        current.subtasks.push(subtask);
+      }
+      stack.push({ indent, subtask });
+    } else if (current && (line.trim() === "" || /^\s/.test(line))) {
+      current.description.push(line.replace(new RegExp(`^\\s{0,${current.indent + INDENT.length}}`), "").trimEnd());
+    }
+    // Paragraphs outside list items aren't tasks
+  }
+
+  const orders = orderKeysAtEnd(workspace.tasks, drafts.length);
+  const tagResolver = createTagResolver(workspace.tags);
+  const tasks: Task[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  drafts.forEach((draft, index) => {
+    const title: string[] = [];
+    const values = new Map<string, string>();
+    const tagIds: string[] = [];
+    let priority: Priority = "medium";
+    for (const word of draft.text.split(/\s+/)) {
+      const keyValue = splitKeyValue(word);
+      if (word === "!high" || word === "!low") {
+        priority = word === "!high" ? "high" : "low";
+      } else if (/^#[A-Za-z]/.test(word)) {
+        tagIds.push(tagResolver.idFor(word.slice(1)));
+      } else if (keyValue && isDueToken(keyValue)) {
+        values.set(keyValue.key, keyValue.value);
+      } else {
+        title.push(word);
+      }
+    }
+    const description = draft.description.join("\n").trim().slice(0, DESCRIPTION_MAX_LENGTH);
+
+    // Status ids of the default workflow; the import maps them onto the project's
+    const parsed = taskSchema.safeParse({
+      id: crypto.randomUUID(),
+      title: title.join(" ").slice(0, TITLE_MAX_LENGTH),
+      description: description || undefined,
+      priority,
+      ...readDueTokens(values),
+      tags: tagIds.length > 0 ? [...new Set(tagIds)] : undefined,
+      subtasks: draft.subtasks.length > 0 ? draft.subtasks : undefined,
+      projectId: draft.projectId,
+      order: orders[index],
+      status: draft.completed ? "done" : "todo",
+      completed: draft.completed,
+      createdAt: now.toISOString(),
+    });
+    if (parsed.success) {
+      tasks.push(parsed.data);
+    } else {
+      rejected.push({ record: draft.line, reason: `"${draft.line.trim()}": ${parsed.error.issues[0].message}` });
+    }
+  });
+
+  return { tasks, rejected, projects: [], tags: tagResolver.used(tasks), workflows: {} };
+};
+
+// Pasted text that contains a list is read as Markdown; anything else as
+// todo.txt, where a plain line is a task with just a title
+export const parsePlainText = (text: string, context: PlainTextImportContext, now: Date = new Date()) =>
+  text.split(/\r?\n/).some(line => LIST_ITEM.test(line)) ? parseMarkdown(text, context, now) : parseTodoTxt(text, context, now);
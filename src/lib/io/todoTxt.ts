@@ -0,0 +1,151 @@
+import { TITLE_MAX_LENGTH, taskSchema, type Priority, type Task } from "@/types/Task";
+import type { Project } from "@/types/Project";
+import type { Tag } from "@/types/Tag";
+import { localTimeZone, toDayKey } from "@/lib/dueDates";
+import { orderKeysAtEnd } from "@/lib/sorting";
+import { resolveTags } from "@/lib/tags";
+import { createTagResolver, type ImportData, type RejectedRecord, type Workspace } from "./importPlan";
+
+// Where tasks from a plain-text file go: `projectId` unless a line names
+// another project of the workspace
+export interface PlainTextImportContext {
+  workspace: Workspace;
+  projectId: string;
+}
+
+export interface PlainTextExportContext {
+  projects: Project[];
+  tags: Tag[];
+}
+
+// todo.txt has letters; A is the most urgent
+const PRIORITY_LETTERS: Record<Priority, string> = { high: "A", medium: "B", low: "C" };
+
+const priorityFromLetter = (letter: string): Priority => (letter === "A" ? "high" : letter === "B" ? "medium" : "low");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Project names may contain spaces; "+Home-office" stands for "Home office"
+const projectToken = (name: string) => name.trim().replace(/\s+/g, "-");
+
+export const findProjectByToken = (projects: Project[], token: string) =>
+  projects.find(project => projectToken(project.name).toLowerCase() === token.toLowerCase());
+
+// "due:2026-11-01", plus "time:17:30 tz:Europe/Berlin" for a due time. The
+// Markdown format writes the same keys.
+export const dueTokens = (task: Task) =>
+  task.dueDate
+    ? [`due:${task.dueDate}`, ...(task.dueTime ? [`time:${task.dueTime}`, `tz:${task.timeZone ?? localTimeZone()}`] : [])]
+    : [];
+
+// Reads the keys dueTokens writes. A time without a zone is local.
+export const readDueTokens = (values: Map<string, string>): Pick<Task, "dueDate" | "dueTime" | "timeZone"> => {
+  const dueDate = values.get("due");
+  if (!dueDate) return {};
+  const dueTime = values.get("time");
+  return dueTime ? { dueDate, dueTime, timeZone: values.get("tz") ?? localTimeZone() } : { dueDate };
+};
+
+// The keys dueTokens writes. A due date that isn't a date stays in the title,
+// like any other word the format doesn't know.
+export const isDueToken = ({ key, value }: { key: string; value: string }) =>
+  key === "due" ? DATE_PATTERN.test(value) : key === "time" || key === "tz";
+
+// A key:value word; URLs are left alone
+export const splitKeyValue = (word: string) => {
+  const match = word.match(/^([A-Za-z][\w-]*):([^\s]+)$/);
+  return match && !match[2].startsWith("//") ? { key: match[1].toLowerCase(), value: match[2] } : null;
+};
+
+// "(A) 2026-10-01 Call the bank +Home @phone due:2026-11-01". Completed tasks
+// keep their priority as "pri:A", as the format recommends, and start with
+// the completion date before the creation date. Tasks don't keep when they
+// were completed unless syncing stamped it; the creation date stands in.
+export const taskToTodoTxt = (task: Task, { projects, tags }: PlainTextExportContext) => {
+  const project = projects.find(candidate => candidate.id === task.projectId);
+  const created = toDayKey(new Date(task.createdAt));
+  const completed = task.fieldUpdatedAt?.completed ? toDayKey(new Date(task.fieldUpdatedAt.completed)) : created;
+  return [
+    task.completed ? `x ${completed} ${created}` : `(${PRIORITY_LETTERS[task.priority]}) ${created}`,
+    task.title,
+    project && `+${projectToken(project.name)}`,
+    ...resolveTags(tags, task.tags).map(tag => `@${tag.name}`),
+    ...dueTokens(task),
+    task.completed && `pri:${PRIORITY_LETTERS[task.priority]}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+};
+
+export const tasksToTodoTxt = (tasks: Task[], context: PlainTextExportContext) =>
+  tasks.map(task => taskToTodoTxt(task, context)).join("\n").concat("\n");
+
+// One task per non-empty line. Contexts become tags; keys other than the
+// ones above stay in the title so nothing is lost.
+export const parseTodoTxt = (text: string, { workspace, projectId }: PlainTextImportContext, now: Date = new Date()): ImportData => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== "");
+  const orders = orderKeysAtEnd(workspace.tasks, lines.length);
+  const tagResolver = createTagResolver(workspace.tags);
+  const tasks: Task[] = [];
+  const rejected: RejectedRecord[] = [];
+
+  lines.forEach((line, index) => {
+    let rest = line.trim();
+    let completed = false;
+    let priority: Priority = "medium";
+    let createdAt: string | undefined;
+
+    const done = rest.match(/^x\s+(?:(\d{4}-\d{2}-\d{2})\s+)?(?:(\d{4}-\d{2}-\d{2})\s+)?/);
+    if (done) {
+      completed = true;
+      // After "x" a lone date is the completion date; the creation date follows it
+      createdAt = done[2];
+      rest = rest.slice(done[0].length);
+    } else {
+      const start = rest.match(/^(?:\(([A-Z])\)\s+)?(?:(\d{4}-\d{2}-\d{2})\s+)?/);
+      if (start[1]) priority = priorityFromLetter(start[1]);
+      createdAt = start[2];
+      rest = rest.slice(start[0].length);
+    }
+
+    const title: string[] = [];
+    const values = new Map<string, string>();
+    let targetProjectId = projectId;
+    const tagIds: string[] = [];
+    for (const word of rest.split(/\s+/)) {
+      const keyValue = splitKeyValue(word);
+      const project = word.length > 1 && word.startsWith("+") && findProjectByToken(workspace.projects, word.slice(1));
+      if (project) {
+        targetProjectId = project.id;
+      } else if (word.length > 1 && word.startsWith("@")) {
+        tagIds.push(tagResolver.idFor(word.slice(1)));
+      } else if (keyValue && (isDueToken(keyValue) || keyValue.key === "pri")) {
+        values.set(keyValue.key, keyValue.value);
+      } else {
+        title.push(word);
+      }
+    }
+    if (values.has("pri")) priority = priorityFromLetter(values.get("pri").toUpperCase());
+
+    // Status ids of the default workflow; the import maps them onto the project's
+    const parsed = taskSchema.safeParse({
+      id: crypto.randomUUID(),
+      title: title.join(" ").slice(0, TITLE_MAX_LENGTH),
+      priority,
+      ...readDueTokens(values),
+      tags: tagIds.length > 0 ? [...new Set(tagIds)] : undefined,
+      projectId: targetProjectId,
+      order: orders[index],
+      status: completed ? "done" : "todo",
+      completed,
+      createdAt: createdAt && DATE_PATTERN.test(createdAt) ? new Date(`${createdAt}T00:00:00`).toISOString() : now.toISOString(),
+    });
+    if (parsed.success) {
+      tasks.push(parsed.data);
+    } else {
+      rejected.push({ record: line, reason: `"${line.trim()}": ${parsed.error.issues[0].message}` });
+    }
+  });
+
+  return { tasks, rejected, projects: [], tags: tagResolver.used(tasks), workflows: {} };
+};
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { projectSchema, type Project } from "@/types/Project";
+import { createLocalStore } from "@/lib/storage/localStore";
+
+// Every workspace has an inbox; it holds tasks created before projects existed
+// and can be renamed but not deleted.
+export const DEFAULT_PROJECT_ID = "inbox";
+
+const DEFAULT_PROJECT: Project = {
+  id: DEFAULT_PROJECT_ID,
+  name: "Inbox",
+  createdAt: new Date(0).toISOString(),
+};
+
+export const projectStore = createLocalStore<Project[]>({
+  key: "projects",
+  schema: z
+    .array(projectSchema)
+    .transform(projects =>
+      projects.some(project => project.id === DEFAULT_PROJECT_ID) ? projects : [DEFAULT_PROJECT, ...projects]
+    ),
+  fallback: [DEFAULT_PROJECT],
+});
+
+export const createProject = (name: string): Project => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  createdAt: new Date().toISOString(),
+});
+
+export const projectPath = (projectId: string) => `/projects/${encodeURIComponent(projectId)}`;
+
+export const projectBoardPath = (projectId: string) => `${projectPath(projectId)}/board`;
+
+export const projectCalendarPath = (projectId: string) => `${projectPath(projectId)}/calendar`;
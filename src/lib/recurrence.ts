@@ -0,0 +1,257 @@
+import {
+  addDays,
+  addMonths,
+  addYears,
+  differenceInCalendarWeeks,
+  format,
+  getDaysInMonth,
+  isAfter,
+  parseISO,
+  setDate,
+  startOfDay,
+} from "date-fns";
+import type { Recurrence, Task } from "@/types/Task";
+import { setAllSubtasksCompleted } from "@/lib/subtasks";
+
+// The subset of iCalendar RRULE (RFC 5545) the task model supports. Rules are
+// stored as RRULE strings, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE".
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  count?: number;
+  until?: string;
+}
+
+const FREQUENCIES: Frequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+// date-fns getDay() index for each RRULE weekday
+const WEEKDAY_INDEX: Record<Weekday, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// Throws on anything outside the supported subset so bad rules never reach storage
+export const parseRule = (rule: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+  rule
+    .replace(/^RRULE:/i, "")
+    .split(";")
+    .filter(Boolean)
+    .forEach(part => {
+      const [key, value] = part.split("=");
+      if (!key || value === undefined) {
+        throw new Error(`Malformed RRULE part "${part}"`);
+      }
+      parts.set(key.toUpperCase(), value.toUpperCase());
+    });
+
+  const freq = parts.get("FREQ") as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported RRULE frequency "${parts.get("FREQ") ?? ""}"`);
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error("RRULE INTERVAL must be a positive integer");
+  }
+
+  const parsed: RecurrenceRule = { freq, interval };
+
+  if (parts.has("BYDAY")) {
+    const days = parts.get("BYDAY").split(",") as Weekday[];
+    if (days.some(day => !WEEKDAYS.includes(day))) {
+      throw new Error("RRULE BYDAY only supports plain weekdays (MO..SU)");
+    }
+    parsed.byDay = WEEKDAYS.filter(day => days.includes(day));
+  }
+  if (parts.has("BYMONTHDAY")) {
+    const day = Number(parts.get("BYMONTHDAY"));
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      throw new Error("RRULE BYMONTHDAY must be between 1 and 31");
+    }
+    parsed.byMonthDay = day;
+  }
+  if (parts.has("COUNT")) {
+    const count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error("RRULE COUNT must be a positive integer");
+    }
+    parsed.count = count;
+  }
+  if (parts.has("UNTIL")) {
+    const until = parts.get("UNTIL");
+    if (!/^\d{8}(T\d{6}Z?)?$/.test(until)) {
+      throw new Error("RRULE UNTIL must be a date such as 20261231");
+    }
+    parsed.until = until;
+  }
+
+  return parsed;
+};
+
+export const isValidRule = (rule: string) => {
+  try {
+    parseRule(rule);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatRule = (rule: RecurrenceRule): string =>
+  [
+    `FREQ=${rule.freq}`,
+    rule.interval > 1 && `INTERVAL=${rule.interval}`,
+    rule.byDay?.length && `BYDAY=${rule.byDay.join(",")}`,
+    rule.byMonthDay && `BYMONTHDAY=${rule.byMonthDay}`,
+    rule.count && `COUNT=${rule.count}`,
+    rule.until && `UNTIL=${rule.until}`,
+  ]
+    .filter(Boolean)
+    .join(";");
+
+const untilDate = (until: string) =>
+  parseISO(`${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`);
+
+const nextMonthlyOnDay = (from: Date, day: number, interval: number) => {
+  // Months without that day (e.g. the 31st) are skipped, as RFC 5545 specifies
+  for (let step = interval; step <= interval * 48; step += interval) {
+    const month = addMonths(setDate(from, 1), step);
+    if (day <= getDaysInMonth(month)) {
+      return setDate(month, day);
+    }
+  }
+  return null;
+};
+
+// The first occurrence strictly after `from`, or null once the rule has ended
+export const nextOccurrence = (rule: RecurrenceRule, from: Date): Date | null => {
+  const start = startOfDay(from);
+  let next: Date | null;
+
+  switch (rule.freq) {
+    case "DAILY":
+      next = addDays(start, rule.interval);
+      break;
+    case "WEEKLY": {
+      if (!rule.byDay?.length) {
+        next = addDays(start, 7 * rule.interval);
+        break;
+      }
+      const weekdays = rule.byDay.map(day => WEEKDAY_INDEX[day]);
+      next = null;
+      for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+        const candidate = addDays(start, offset);
+        const weeksApart = differenceInCalendarWeeks(candidate, start, { weekStartsOn: 1 });
+        if (weeksApart % rule.interval === 0 && weekdays.includes(candidate.getDay())) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+    case "MONTHLY":
+      next = nextMonthlyOnDay(start, rule.byMonthDay ?? start.getDate(), rule.interval);
+      break;
+    case "YEARLY":
+      next = addYears(start, rule.interval);
+      break;
+  }
+
+  if (next && rule.until && isAfter(next, untilDate(rule.until))) {
+    return null;
+  }
+  return next;
+};
+
+// Builds the follow-up task for a recurring task that was just completed.
+// Returns null when the series has run out.
+export const createNextOccurrence = (task: Task, completedAt: Date = new Date()): Task | null => {
+  if (!task.recurrence) return null;
+
+  const rule = parseRule(task.recurrence.rule);
+  if (rule.count === 1) return null;
+
+  const anchor = task.recurrence.fromCompletion || !task.dueDate ? completedAt : parseISO(task.dueDate);
+  let due = nextOccurrence(rule, anchor);
+  // A late completion should not produce an occurrence that is already overdue
+  while (due && !task.recurrence.fromCompletion && isAfter(startOfDay(completedAt), due)) {
+    due = nextOccurrence(rule, due);
+  }
+  if (!due) return null;
+
+  // A new task: no field of it has been edited yet, so none of the sync
+  // timestamps carry over
+  const { fieldUpdatedAt, ...fields } = task;
+  return {
+    ...fields,
+    id: crypto.randomUUID(),
+    completed: false,
+    subtasks: task.subtasks && setAllSubtasksCompleted(task.subtasks, false),
+    dueDate: format(due, DATE_FORMAT),
+    recurrence: {
+      ...task.recurrence,
+      rule: rule.count ? formatRule({ ...rule, count: rule.count - 1 }) : task.recurrence.rule,
+    },
+    createdAt: new Date().toISOString(),
+  };
+};
+
+const plural = (count: number, unit: string) => (count === 1 ? unit : `${count} ${unit}s`);
+
+export const describeRecurrence = (recurrence: Recurrence): string => {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRule(recurrence.rule);
+  } catch {
+    return "Repeats";
+  }
+
+  let description: string;
+  switch (rule.freq) {
+    case "DAILY":
+      description = `Every ${plural(rule.interval, "day")}`;
+      break;
+    case "WEEKLY":
+      description = `Every ${plural(rule.interval, "week")}`;
+      if (rule.byDay?.length) {
+        description += ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(", ")}`;
+      }
+      break;
+    case "MONTHLY":
+      description = `Every ${plural(rule.interval, "month")}`;
+      if (rule.byMonthDay) {
+        description += ` on day ${rule.byMonthDay}`;
+      }
+      break;
+    case "YEARLY":
+      description = `Every ${plural(rule.interval, "year")}`;
+      break;
+  }
+
+  if (recurrence.fromCompletion) {
+    description += " after completion";
+  }
+  if (rule.count) {
+    description += `, ${plural(rule.count, "time")} left`;
+  }
+  return description;
+};
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import type { Task } from "@/types/Task";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { dueInstant } from "@/lib/dueDates";
+
+export interface DueReminder {
+  // Changes when the task is rescheduled, so moved reminders go off again
+  key: string;
+  task: Task;
+  minutesBefore: number;
+}
+
+// A reminder missed while the app was closed is still shown this long after its time
+const REMINDER_GRACE_MS = 60 * 60 * 1000;
+// Delivered reminders are forgotten once they can't come due again
+const DELIVERED_RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+// When each reminder was delivered, keyed by DueReminder.key. Shared by every
+// open tab so a reminder only goes off once.
+export const deliveredReminderStore = createLocalStore<Record<string, string>>({
+  key: "reminders",
+  schema: z.record(z.string()),
+  fallback: {},
+});
+
+const reminderTime = (due: Date, minutesBefore: number) => new Date(due.getTime() - minutesBefore * 60000);
+
+// Reminders of open tasks whose time has come and that haven't been delivered yet
+export const collectDueReminders = (tasks: Task[], delivered: Record<string, string>, now: Date): DueReminder[] =>
+  tasks.flatMap(task => {
+    if (task.completed || !task.dueTime || !task.reminders?.length) return [];
+    const due = dueInstant(task);
+    return task.reminders
+      .map(minutesBefore => ({ key: `${task.id}:${minutesBefore}:${due.toISOString()}`, task, minutesBefore }))
+      .filter(({ key, minutesBefore }) => {
+        const at = reminderTime(due, minutesBefore).getTime();
+        return !delivered[key] && at <= now.getTime() && now.getTime() - at < REMINDER_GRACE_MS;
+      });
+  });
+
+export const markDelivered = (delivered: Record<string, string>, reminders: DueReminder[], now: Date) => {
+  const kept = Object.entries(delivered).filter(([, at]) => now.getTime() - Date.parse(at) < DELIVERED_RETENTION_MS);
+  return Object.fromEntries([...kept, ...reminders.map(({ key }) => [key, now.toISOString()])]);
+};
+
+const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? "" : "s"}`;
+
+export const describeReminder = (minutesBefore: number) => {
+  if (minutesBefore === 0) return "At due time";
+  if (minutesBefore % 1440 === 0) return `${plural(minutesBefore / 1440, "day")} before`;
+  if (minutesBefore % 60 === 0) return `${plural(minutesBefore / 60, "hour")} before`;
+  return `${plural(minutesBefore, "minute")} before`;
+};
+
+export const canNotify = () => "Notification" in window && Notification.permission === "granted";
+
+// Browsers only ask from a user gesture, so call this from an event handler.
+// Without permission reminders fall back to in-app toasts.
+export const requestNotificationPermission = () => {
+  if ("Notification" in window && Notification.permission === "default") {
+    Notification.requestPermission().catch(error => console.error("Failed to request notification permission:", error));
+  }
+};
@@ -0,0 +1,137 @@
+import { addDays, format } from "date-fns";
+import type { Tag } from "@/types/Tag";
+import type { Task } from "@/types/Task";
+import { dueDay, isOverdue } from "@/lib/dueDates";
+import { normalizeTagName } from "@/lib/tags";
+import type { QueryNode, QueryOperator } from "./queryParser";
+import type { SearchIndex } from "./searchIndex";
+
+export interface QueryContext {
+  tags: Tag[];
+  // Injectable so results are deterministic; `today` is its local date as YYYY-MM-DD
+  now: Date;
+  today: string;
+  // Enables fuzzy text matching; without it text terms are plain substrings
+  index?: SearchIndex;
+}
+
+export const createQueryContext = (tags: Tag[], index?: SearchIndex, now: Date = new Date()): QueryContext => ({
+  tags,
+  now,
+  today: format(now, "yyyy-MM-dd"),
+  index,
+});
+
+const resolveDate = (value: string, today: string) => {
+  const base = new Date(`${today}T00:00:00`);
+  switch (value) {
+    case "today":
+      return today;
+    case "tomorrow":
+      return format(addDays(base, 1), "yyyy-MM-dd");
+    case "yesterday":
+      return format(addDays(base, -1), "yyyy-MM-dd");
+    default:
+      return value;
+  }
+};
+
+// Dates compare as YYYY-MM-DD strings, which sort chronologically
+const compareDates = (actual: string, operator: QueryOperator, expected: string) => {
+  switch (operator) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    default:
+      return actual === expected;
+  }
+};
+
+const taskText = (task: Task) => `${task.title}\n${task.description ?? ""}`.toLowerCase();
+
+const matchesField = (task: Task, node: Extract<QueryNode, { type: "field" }>, context: QueryContext) => {
+  switch (node.field) {
+    case "priority":
+      return task.priority === node.value;
+    case "due":
+      if (node.value === "none") return !task.dueDate;
+      return Boolean(task.dueDate) && compareDates(dueDay(task), node.operator, resolveDate(node.value, context.today));
+    case "created":
+      return compareDates(
+        format(new Date(task.createdAt), "yyyy-MM-dd"),
+        node.operator,
+        resolveDate(node.value, context.today)
+      );
+    case "is":
+      switch (node.value) {
+        case "open":
+          return !task.completed;
+        case "done":
+          return task.completed;
+        case "overdue":
+          return isOverdue(task, context.now);
+        case "recurring":
+          return Boolean(task.recurrence);
+      }
+      return false;
+    case "has":
+      switch (node.value) {
+        case "due":
+          return Boolean(task.dueDate);
+        case "tags":
+          return Boolean(task.tags?.length);
+        case "subtasks":
+          return Boolean(task.subtasks?.length);
+        case "description":
+          return Boolean(task.description?.trim());
+        case "recurrence":
+          return Boolean(task.recurrence);
+      }
+      return false;
+    case "tag": {
+      // Prefix match so tag:back finds "backend"; spelled like stored names, so
+      // tag:"web app" finds "web-app"
+      const prefix = normalizeTagName(node.value);
+      const tagIds = context.tags.filter(tag => tag.name.startsWith(prefix)).map(tag => tag.id);
+      return Boolean(task.tags?.some(id => tagIds.includes(id)));
+    }
+  }
+};
+
+export const matchesQuery = (task: Task, node: QueryNode | null, context: QueryContext): boolean => {
+  if (!node) return true;
+  switch (node.type) {
+    case "and":
+      return node.children.every(child => matchesQuery(task, child, context));
+    case "or":
+      return node.children.some(child => matchesQuery(task, child, context));
+    case "not":
+      return !matchesQuery(task, node.child, context);
+    case "text":
+      return context.index
+        ? context.index.lookup(node.value, node.exact).has(task.id)
+        : taskText(task).includes(node.value);
+    case "field":
+      return matchesField(task, node, context);
+  }
+};
+
+// Free-text terms that count towards ranking and highlighting; negated terms
+// never match a result, so they are left out
+export const collectTextTerms = (node: QueryNode | null): { value: string; exact: boolean }[] => {
+  if (!node) return [];
+  switch (node.type) {
+    case "and":
+    case "or":
+      return node.children.flatMap(collectTextTerms);
+    case "text":
+      return [{ value: node.value, exact: node.exact }];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,237 @@
+import { prioritySchema } from "@/types/Task";
+
+// Search query language used by the task list search box:
+//
+//   priority:high due:<2026-11-01 is:open tag:backend "exact phrase" -word
+//
+// Terms are ANDed together; OR and parentheses group alternatives and a
+// leading "-" negates a term or group.
+
+export type QueryField = "priority" | "due" | "created" | "is" | "has" | "tag";
+
+export type QueryOperator = ":" | "<" | "<=" | ">" | ">=";
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "text"; value: string; exact: boolean }
+  | { type: "field"; field: QueryField; operator: QueryOperator; value: string };
+
+export interface QueryError {
+  message: string;
+  // Character range in the input the error refers to
+  start: number;
+  end: number;
+}
+
+export type ParseResult = { success: true; query: QueryNode | null } | { success: false; error: QueryError };
+
+interface Token {
+  kind: "word" | "phrase" | "field" | "lparen" | "rparen" | "not" | "or";
+  value: string;
+  start: number;
+  end: number;
+  field?: string;
+  operator?: QueryOperator;
+}
+
+export const IS_VALUES = ["open", "done", "overdue", "recurring"] as const;
+export const HAS_VALUES = ["due", "tags", "subtasks", "description", "recurrence"] as const;
+export const DATE_KEYWORDS = ["today", "tomorrow", "yesterday"] as const;
+
+const FIELDS: QueryField[] = ["priority", "due", "created", "is", "has", "tag"];
+const DATE_FIELDS: QueryField[] = ["due", "created"];
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+  }
+}
+
+const isDateValue = (value: string) =>
+  (DATE_KEYWORDS as readonly string[]).includes(value) ||
+  (/^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)));
+
+const readQuoted = (input: string, start: number) => {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError("Missing closing quote", start, input.length);
+  }
+  return { value: input.slice(start + 1, close), end: close + 1 };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char === "(" ? "lparen" : "rparen", value: char, start: index, end: index + 1 });
+      index++;
+    } else if (char === "-" && index + 1 < input.length && !/\s/.test(input[index + 1])) {
+      tokens.push({ kind: "not", value: char, start: index, end: index + 1 });
+      index++;
+    } else if (char === '"') {
+      const { value, end } = readQuoted(input, index);
+      tokens.push({ kind: "phrase", value, start: index, end });
+      index = end;
+    } else {
+      const start = index;
+      while (index < input.length && !/[\s()"]/.test(input[index])) index++;
+      const word = input.slice(start, index);
+      const field = /^([a-z]+):(<=|>=|<|>)?(.*)$/i.exec(word);
+
+      if (word === "OR") {
+        tokens.push({ kind: "or", value: word, start, end: index });
+      } else if (field) {
+        let value = field[3];
+        // Allow quoted values such as tag:"needs review"
+        if (value === "" && input[index] === '"') {
+          const quoted = readQuoted(input, index);
+          value = quoted.value;
+          index = quoted.end;
+        }
+        tokens.push({
+          kind: "field",
+          value,
+          field: field[1].toLowerCase(),
+          operator: (field[2] as QueryOperator) ?? ":",
+          start,
+          end: index,
+        });
+      } else {
+        tokens.push({ kind: "word", value: word, start, end: index });
+      }
+    }
+  }
+
+  return tokens;
+};
+
+const validateField = (token: Token): QueryNode => {
+  const field = token.field as QueryField;
+  const value = token.value.toLowerCase();
+  const fail = (message: string) => {
+    throw new QuerySyntaxError(message, token.start, token.end);
+  };
+
+  if (!FIELDS.includes(field)) {
+    fail(`Unknown filter "${token.field}:". Try ${FIELDS.map(name => `${name}:`).join(", ")}`);
+  }
+  if (value === "") {
+    fail(`"${field}:" needs a value`);
+  }
+  if (token.operator !== ":" && !DATE_FIELDS.includes(field)) {
+    fail(`"${token.operator}" only works with dates, e.g. due:<2026-11-01`);
+  }
+
+  switch (field) {
+    case "priority":
+      if (!prioritySchema.options.includes(value as never)) {
+        fail(`Priority must be one of ${prioritySchema.options.join(", ")}`);
+      }
+      break;
+    case "due":
+    case "created":
+      if (!isDateValue(value) && !(field === "due" && value === "none")) {
+        fail(`"${token.value}" is not a date. Use YYYY-MM-DD, today, tomorrow or yesterday`);
+      }
+      break;
+    case "is":
+      if (!(IS_VALUES as readonly string[]).includes(value)) {
+        fail(`"is:" must be one of ${IS_VALUES.join(", ")}`);
+      }
+      break;
+    case "has":
+      if (!(HAS_VALUES as readonly string[]).includes(value)) {
+        fail(`"has:" must be one of ${HAS_VALUES.join(", ")}`);
+      }
+      break;
+  }
+
+  return { type: "field", field, operator: token.operator, value };
+};
+
+// Recursive descent over:  or := and ("OR" and)* ; and := unary+ ;
+// unary := "-" unary | "(" or ")" | term
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode | null => {
+  let position = 0;
+  const peek = () => tokens[position];
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position++];
+    switch (token.kind) {
+      case "not": {
+        if (!peek() || peek().kind === "rparen" || peek().kind === "or") {
+          throw new QuerySyntaxError('"-" must be followed by a term', token.start, token.end);
+        }
+        return { type: "not", child: parseUnary() };
+      }
+      case "lparen": {
+        if (peek()?.kind === "rparen") {
+          throw new QuerySyntaxError("Empty parentheses", token.start, peek().end);
+        }
+        const inner = parseOr();
+        if (peek()?.kind !== "rparen") {
+          throw new QuerySyntaxError("Missing closing parenthesis", token.start, inputLength);
+        }
+        position++;
+        return inner;
+      }
+      case "rparen":
+        throw new QuerySyntaxError('Unexpected ")"', token.start, token.end);
+      case "or":
+        throw new QuerySyntaxError('"OR" must sit between two terms', token.start, token.end);
+      case "phrase":
+        return { type: "text", value: token.value.toLowerCase(), exact: true };
+      case "field":
+        return validateField(token);
+      default:
+        return { type: "text", value: token.value.toLowerCase(), exact: false };
+    }
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    while (peek() && peek().kind !== "or" && peek().kind !== "rparen") {
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      const token = peek() ?? tokens[position - 1];
+      throw new QuerySyntaxError('"OR" must sit between two terms', token.start, token.end);
+    }
+    return children.length === 1 ? children[0] : { type: "and", children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.kind === "or") {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: "or", children };
+  };
+
+  if (tokens.length === 0) return null;
+  const query = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new QuerySyntaxError(`Unexpected "${token.value}"`, token.start, token.end);
+  }
+  return query;
+};
+
+export const parseQuery = (input: string): ParseResult => {
+  try {
+    return { success: true, query: parseTokens(tokenize(input), input.length) };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { success: false, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
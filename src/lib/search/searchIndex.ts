@@ -0,0 +1,232 @@
+import { flattenSubtasks } from "@/lib/subtasks";
+import type { Tag } from "@/types/Tag";
+import type { Task } from "@/types/Task";
+
+// In-memory inverted index over the searchable text of every task. It is
+// rebuilt whenever tasks or tags change and answers per-term lookups with
+// typo tolerance, a relevance score and the character ranges to highlight.
+
+export type SearchField = "title" | "description" | "tags" | "subtasks";
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface TaskMatch {
+  score: number;
+  title: MatchRange[];
+  description: MatchRange[];
+  tagIds: string[];
+  // Matching step titles, keyed by subtask id
+  subtasks: Record<string, MatchRange[]>;
+}
+
+export interface SearchIndex {
+  // Tasks matching a single query term. Exact terms are phrase matches;
+  // other terms match when each of their words matches an indexed word.
+  lookup(term: string, exact?: boolean): Map<string, TaskMatch>;
+  // Scores and highlights summed over several terms; a task only needs to
+  // match one of them to appear
+  search(terms: { value: string; exact: boolean }[]): Map<string, TaskMatch>;
+}
+
+interface Field {
+  taskId: string;
+  field: SearchField;
+  // Tag or subtask id for fields that occur several times per task
+  key?: string;
+  text: string;
+}
+
+interface Posting {
+  field: Field;
+  start: number;
+  end: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1,
+  subtasks: 1,
+};
+
+// How much of a field's weight a word earns for each kind of match
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.6;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const tokenize = (text: string) =>
+  Array.from(text.toLowerCase().matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+// Short words must match exactly; longer ones tolerate one or two typos
+const maxTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Optimal string alignment distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const beforeRow = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, beforeRow[j - 2] + 1);
+      }
+      row[j] = distance;
+      rowMin = Math.min(rowMin, distance);
+    }
+    if (rowMin > max) return Infinity;
+  }
+  return row[b.length];
+};
+
+const emptyMatch = (): TaskMatch => ({ score: 0, title: [], description: [], tagIds: [], subtasks: {} });
+
+const addRange = (match: TaskMatch, field: Field, range: MatchRange) => {
+  switch (field.field) {
+    case "title":
+    case "description":
+      match[field.field].push(range);
+      break;
+    case "tags":
+      if (!match.tagIds.includes(field.key)) match.tagIds.push(field.key);
+      break;
+    case "subtasks":
+      (match.subtasks[field.key] ??= []).push(range);
+      break;
+  }
+};
+
+const mergeMatch = (target: TaskMatch, source: TaskMatch) => {
+  target.score += source.score;
+  target.title.push(...source.title);
+  target.description.push(...source.description);
+  source.tagIds.forEach(tagId => !target.tagIds.includes(tagId) && target.tagIds.push(tagId));
+  Object.entries(source.subtasks).forEach(([id, ranges]) => (target.subtasks[id] ??= []).push(...ranges));
+};
+
+const collectFields = (task: Task, tagsById: Map<string, Tag>): Field[] => [
+  { taskId: task.id, field: "title", text: task.title },
+  { taskId: task.id, field: "description", text: task.description ?? "" },
+  ...(task.tags ?? [])
+    .filter(tagId => tagsById.has(tagId))
+    .map((tagId): Field => ({ taskId: task.id, field: "tags", key: tagId, text: tagsById.get(tagId).name })),
+  ...flattenSubtasks(task.subtasks).map(
+    (subtask): Field => ({ taskId: task.id, field: "subtasks", key: subtask.id, text: subtask.title })
+  ),
+];
+
+export const createSearchIndex = (tasks: Task[], tags: Tag[]): SearchIndex => {
+  const tagsById = new Map(tags.map(tag => [tag.id, tag]));
+  const fields = tasks.flatMap(task => collectFields(task, tagsById));
+  const postings = new Map<string, Posting[]>();
+
+  fields.forEach(field => {
+    tokenize(field.text).forEach(({ word, start, end }) => {
+      const list = postings.get(word);
+      if (list) {
+        list.push({ field, start, end });
+      } else {
+        postings.set(word, [{ field, start, end }]);
+      }
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys());
+  // Results only change when the index is rebuilt, so lookups are memoised
+  const lookups = new Map<string, Map<string, TaskMatch>>();
+
+  // Indexed words similar to `word`, with the quality and highlighted length
+  const similarWords = (word: string) =>
+    vocabulary.flatMap(candidate => {
+      if (candidate === word) return [{ candidate, quality: EXACT_MATCH, length: candidate.length }];
+      if (candidate.startsWith(word)) return [{ candidate, quality: PREFIX_MATCH, length: word.length }];
+      const typos = editDistance(word, candidate, maxTypos(word));
+      return typos === Infinity ? [] : [{ candidate, quality: FUZZY_MATCH / typos, length: candidate.length }];
+    });
+
+  const lookupWord = (word: string) => {
+    const matches = new Map<string, TaskMatch>();
+    similarWords(word).forEach(({ candidate, quality, length }) => {
+      postings.get(candidate).forEach(({ field, start }) => {
+        const match = matches.get(field.taskId) ?? emptyMatch();
+        match.score = Math.max(match.score, FIELD_WEIGHTS[field.field] * quality);
+        addRange(match, field, { start, end: start + length });
+        matches.set(field.taskId, match);
+      });
+    });
+    return matches;
+  };
+
+  const lookupWords = (term: string) => {
+    const words = tokenize(term).map(({ word }) => word);
+    if (words.length === 0) return new Map<string, TaskMatch>();
+
+    // Every word of the term has to match somewhere in the task
+    const [first, ...rest] = words.map(lookupWord);
+    const matches = new Map<string, TaskMatch>();
+    first.forEach((match, taskId) => {
+      if (rest.every(other => other.has(taskId))) {
+        const combined = emptyMatch();
+        mergeMatch(combined, match);
+        rest.forEach(other => mergeMatch(combined, other.get(taskId)));
+        matches.set(taskId, combined);
+      }
+    });
+    return matches;
+  };
+
+  const lookupPhrase = (phrase: string) => {
+    const matches = new Map<string, TaskMatch>();
+    if (!phrase) return matches;
+    fields.forEach(field => {
+      const text = field.text.toLowerCase();
+      let start = text.indexOf(phrase);
+      while (start !== -1) {
+        const match = matches.get(field.taskId) ?? emptyMatch();
+        match.score = Math.max(match.score, FIELD_WEIGHTS[field.field] * EXACT_MATCH);
+        addRange(match, field, { start, end: start + phrase.length });
+        matches.set(field.taskId, match);
+        start = text.indexOf(phrase, start + phrase.length);
+      }
+    });
+    return matches;
+  };
+
+  const lookup = (term: string, exact = false) => {
+    const normalized = term.toLowerCase();
+    const cacheKey = `${exact ? "phrase" : "words"}:${normalized}`;
+    if (!lookups.has(cacheKey)) {
+      lookups.set(cacheKey, exact ? lookupPhrase(normalized) : lookupWords(normalized));
+    }
+    return lookups.get(cacheKey);
+  };
+
+  const search = (terms: { value: string; exact: boolean }[]) => {
+    const results = new Map<string, TaskMatch>();
+    terms.forEach(({ value, exact }) => {
+      lookup(value, exact).forEach((match, taskId) => {
+        const result = results.get(taskId) ?? emptyMatch();
+        mergeMatch(result, match);
+        results.set(taskId, result);
+      });
+    });
+    return results;
+  };
+
+  return { lookup, search };
+};
@@ -0,0 +1,147 @@
+import { z } from "zod";
+import { projectSortSchema, type ProjectSort, type SortField, type SortKey } from "@/types/Sort";
+import type { Priority, Task } from "@/types/Task";
+import type { TaskOperation } from "@/lib/storage";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { compareOrderKeys, generateKeyBetween, generateKeys } from "@/lib/fractionalIndex";
+import { dueInstant } from "@/lib/dueDates";
+
+export const SORT_FIELD_LABELS: Record<SortField, string> = {
+  priority: "Priority",
+  dueDate: "Due date",
+  createdAt: "Created",
+  title: "Title",
+  completed: "Completion",
+  manual: "Manual order",
+};
+
+// Direction a key starts with when added, i.e. the order most people expect
+export const DEFAULT_SORT_DIRECTIONS: Record<SortField, SortKey["direction"]> = {
+  priority: "desc",
+  dueDate: "asc",
+  createdAt: "desc",
+  title: "asc",
+  completed: "asc",
+  manual: "asc",
+};
+
+export const EMPTY_PROJECT_SORT: ProjectSort = { keys: [], presets: [] };
+
+// Sorting state keyed by project id
+export const sortStore = createLocalStore<Record<string, ProjectSort>>({
+  key: "sort",
+  schema: z.record(projectSortSchema),
+  fallback: {},
+});
+
+const PRIORITY_RANK: Record<Priority, number> = { low: 0, medium: 1, high: 2 };
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true });
+
+type Comparator = (a: Task, b: Task) => number;
+
+const compareField = (field: SortField): Comparator => {
+  switch (field) {
+    case "priority":
+      return (a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+    case "dueDate":
+      return (a, b) => (dueInstant(a)?.getTime() ?? 0) - (dueInstant(b)?.getTime() ?? 0);
+    case "createdAt":
+      return (a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt);
+    case "title":
+      return (a, b) => titleCollator.compare(a.title, b.title);
+    case "completed":
+      return (a, b) => Number(a.completed) - Number(b.completed);
+    case "manual":
+      return (a, b) => compareOrderKeys(a.order, b.order);
+  }
+};
+
+// Sorts by each key in turn, later keys breaking ties of earlier ones. Tasks
+// without a due date always go last, and remaining ties keep their input order.
+export const sortTasks = (tasks: Task[], keys: SortKey[]): Task[] => {
+  if (keys.length === 0) return tasks;
+
+  const comparators = keys.map(({ field, direction }): Comparator => {
+    const compare = compareField(field);
+    const sign = direction === "asc" ? 1 : -1;
+    if (field === "dueDate") {
+      return (a, b) => (!a.dueDate || !b.dueDate ? Number(!a.dueDate) - Number(!b.dueDate) : sign * compare(a, b));
+    }
+    return (a, b) => sign * compare(a, b);
+  });
+
+  return [...tasks].sort((a, b) => {
+    for (const compare of comparators) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  });
+};
+
+export const describeSortKeys = (keys: SortKey[]) =>
+  keys.length === 0 ? SORT_FIELD_LABELS.manual : keys.map(key => SORT_FIELD_LABELS[key.field]).join(", then ");
+
+// True when the list shows tasks in their stored manual order, which is the
+// only time dragging a task to a new position makes sense
+export const isManualOrder = (keys: SortKey[]) =>
+  keys.length === 0 || (keys[0].field === "manual" && keys[0].direction === "asc");
+
+export const sortByOrder = (tasks: Task[]) => [...tasks].sort((a, b) => compareOrderKeys(a.order, b.order));
+
+// Order key placing a new task above every existing one
+export const orderKeyAtStart = (tasks: Task[]) =>
+  generateKeyBetween(null, tasks.reduce<string | null>((min, task) => (min === null || task.order < min ? task.order : min), null));
+
+// `count` ascending order keys placing new tasks below every existing one
+export const orderKeysAtEnd = (tasks: Task[], count: number) =>
+  generateKeys(count, tasks.reduce<string | null>((max, task) => (max === null || task.order > max ? task.order : max), null));
+
+// Order key placing a task directly after `task`, ahead of whatever followed it
+export const orderKeyAfter = (tasks: Task[], task: Task) =>
+  generateKeyBetween(
+    task.order,
+    tasks.reduce<string | null>(
+      (next, candidate) => (candidate.order > task.order && (next === null || candidate.order < next) ? candidate.order : next),
+      null
+    )
+  );
+
+// Order keys for inserting `task` at `index` of `list`, which is sorted by
+// order, by task id. Usually only `task` gets a key. Neighbours can share a
+// key, though (two devices each added a task at the top, say), and nothing
+// fits between them: then the tasks holding that key are rekeyed with it.
+export const orderKeysForInsert = (list: Task[], index: number, task: Task): Map<string, string> => {
+  const before = list[index - 1]?.order ?? null;
+  const after = list[index]?.order ?? null;
+  if (before === null || before !== after) return new Map([[task.id, generateKeyBetween(before, after)]]);
+
+  let start = index - 1;
+  while (start > 0 && list[start - 1].order === before) start--;
+  let end = index;
+  while (end < list.length && list[end].order === after) end++;
+  const upper = list[end]?.order ?? null;
+  let previous = list[start - 1]?.order ?? null;
+  return new Map(
+    [...list.slice(start, index), task, ...list.slice(index, end)].map(member => {
+      previous = generateKeyBetween(previous, upper);
+      return [member.id, previous];
+    })
+  );
+};
+
+// Order keys for moving list[fromIndex] to toIndex. Only the moved task's key
+// changes, unless it lands among tasks sharing a key.
+export const orderKeysForMove = (list: Task[], fromIndex: number, toIndex: number) =>
+  orderKeysForInsert(
+    list.filter((_, index) => index !== fromIndex),
+    toIndex,
+    list[fromIndex]
+  );
+
+// The writes for the keys of other tasks in `orders`, rekeyed to make room
+export const neighbourOrderOperations = (orders: Map<string, string>, task: Task): TaskOperation[] =>
+  [...orders]
+    .filter(([id]) => id !== task.id)
+    .map(([id, order]) => ({ type: "update", id, changes: { order } }));
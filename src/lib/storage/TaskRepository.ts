@@ -0,0 +1,31 @@
+import type { Task } from "@/types/Task";
+import type { LoadReport } from "./migrations";
+
+export type TaskStorageBackend = "localStorage" | "indexedDB" | "memory";
+
+export type TaskChanges = Partial<Omit<Task, "id">>;
+
+export type TaskListener = (tasks: Task[]) => void;
+
+export type TaskOperation =
+  | { type: "create"; task: Task }
+  | { type: "update"; id: string; changes: TaskChanges }
+  | { type: "delete"; id: string };
+
+// Storage-agnostic access to the task list. Every backend keeps tasks in the
+// same order (newest first) and notifies subscribers after each write.
+export interface TaskRepository {
+  readonly backend: TaskStorageBackend;
+  list(): Promise<Task[]>;
+  // Describes the migrations and quarantined records from the initial load
+  loadReport(): Promise<LoadReport>;
+  get(id: string): Promise<Task | undefined>;
+  create(task: Task): Promise<Task>;
+  update(id: string, changes: TaskChanges): Promise<Task>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+  // Applies the operations in order as a single write: either all of them
+  // land or, when one fails, none do
+  batch(operations: TaskOperation[]): Promise<void>;
+  subscribe(listener: TaskListener): () => void;
+}
@@ -0,0 +1,234 @@
+import type { Task } from "@/types/Task";
+import type { TaskChanges, TaskOperation, TaskRepository } from "./TaskRepository";
+import type { LocalStore } from "./localStore";
+
+// One reversible write. Steps run against the unrecorded repository, so
+// undoing never records anything itself.
+export interface HistoryStep {
+  undo(): Promise<unknown> | void;
+  redo(): Promise<unknown> | void;
+}
+
+export interface HistoryCommand {
+  id: string;
+  label: string;
+  steps: HistoryStep[];
+}
+
+export interface HistoryState {
+  // Labels of the commands Undo and Redo would apply, null when there are none
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+// The writes of one group. Only what goes through it joins the group's
+// command; pass it on to helpers that should be undone together with it.
+export interface HistoryGroup {
+  readonly repository: TaskRepository;
+  // Adds a write made outside the repository (a store the tasks depend on)
+  record(step: HistoryStep): void;
+}
+
+export interface TaskHistory {
+  // Records each write as a command of its own; this is the repository the
+  // app should use
+  readonly repository: TaskRepository;
+  // The wrapped repository. Writes to it are final and skip the history, e.g.
+  // purging the trash.
+  readonly source: TaskRepository;
+  // Records the writes `run` makes through the group it's given as one
+  // command, e.g. a completed recurring task and its next occurrence. Groups
+  // running at the same time stay apart. Resolves to the command, or null when
+  // nothing was written.
+  group(label: string, run: (group: HistoryGroup) => Promise<unknown>): Promise<HistoryCommand | null>;
+  // Records a write made outside the repository as a command of its own
+  record(label: string, step: HistoryStep): void;
+  undo(): Promise<HistoryCommand | null>;
+  redo(): Promise<HistoryCommand | null>;
+  // Undoes `command` only while it's still the latest one, for "Undo" buttons
+  // on toasts that may outlive it. Resolves to whether it was undone.
+  undoCommand(command: HistoryCommand): Promise<boolean>;
+  getState(): HistoryState;
+  subscribe(listener: () => void): () => void;
+}
+
+// Older commands are dropped once the stack is this deep
+const HISTORY_LIMIT = 100;
+
+// Names a lone update after what it changed
+export const describeChanges = (changes: TaskChanges) => {
+  const keys = Object.keys(changes);
+  if (keys.includes("deletedAt")) return changes.deletedAt ? "Move to trash" : "Restore task";
+  if (keys.includes("projectId")) return "Move task";
+  if (keys.includes("completed") && !keys.includes("status")) return changes.completed ? "Complete task" : "Reopen task";
+  if (keys.includes("status")) return "Change status";
+  if (keys.every(key => key === "order")) return "Reorder task";
+  if (keys.every(key => key === "dueDate")) return "Reschedule task";
+  if (keys.every(key => key === "subtasks" || key === "completed")) return "Update steps";
+  return "Edit task";
+};
+
+// Restores a LocalStore value on undo
+export const localStoreStep = <T>(store: LocalStore<T>, previous: T, next: T): HistoryStep => ({
+  undo: () => store.set(previous),
+  redo: () => store.set(next),
+});
+
+export const createTaskHistory = (inner: TaskRepository): TaskHistory => {
+  const listeners = new Set<() => void>();
+  let undoStack: HistoryCommand[] = [];
+  let redoStack: HistoryCommand[] = [];
+  // Undo and redo run one at a time, in the order they were asked for
+  let pending: Promise<unknown> = Promise.resolve();
+  let state: HistoryState = { undoLabel: null, redoLabel: null };
+
+  const latest = (stack: HistoryCommand[]) => stack[stack.length - 1];
+
+  const update = () => {
+    state = { undoLabel: latest(undoStack)?.label ?? null, redoLabel: latest(redoStack)?.label ?? null };
+    listeners.forEach(listener => listener());
+  };
+
+  const push = (command: HistoryCommand) => {
+    undoStack = [...undoStack, command].slice(-HISTORY_LIMIT);
+    redoStack = [];
+    update();
+  };
+
+  const record = (label: string, step: HistoryStep) => {
+    push({ id: crypto.randomUUID(), label, steps: [step] });
+  };
+
+  const serially = <T>(run: () => Promise<T>) => {
+    const result = pending.then(run);
+    pending = result.catch(() => undefined);
+    return result;
+  };
+
+  // A command that fails halfway is dropped rather than left half-applied on the stack
+  const undoLatest = async () => {
+    const command = latest(undoStack);
+    if (!command) return null;
+    undoStack = undoStack.slice(0, -1);
+    try {
+      for (const step of [...command.steps].reverse()) await step.undo();
+      redoStack = [...redoStack, command];
+    } finally {
+      update();
+    }
+    return command;
+  };
+
+  const redo = () =>
+    serially(async () => {
+      const command = latest(redoStack);
+      if (!command) return null;
+      redoStack = redoStack.slice(0, -1);
+      try {
+        for (const step of command.steps) await step.redo();
+        undoStack = [...undoStack, command];
+      } finally {
+        update();
+      }
+      return command;
+    });
+
+  // Wraps `inner` so each write hands its inverse to `record`
+  const recording = (record: (label: string, step: HistoryStep) => void): TaskRepository => ({
+    backend: inner.backend,
+    list: () => inner.list(),
+    loadReport: () => inner.loadReport(),
+    get: (id) => inner.get(id),
+    subscribe: (listener) => inner.subscribe(listener),
+
+    create: async (task) => {
+      const created = await inner.create(task);
+      record("Add task", { undo: () => inner.delete(created.id), redo: () => inner.create(created) });
+      return created;
+    },
+
+    update: async (id, changes) => {
+      const before = await inner.get(id);
+      const updated = await inner.update(id, changes);
+      // Keys the task didn't have are restored as undefined, which removes them
+      const previous = Object.fromEntries(Object.keys(changes).map(key => [key, before?.[key as keyof Task]]));
+      record(describeChanges(changes), {
+        undo: () => inner.update(id, previous),
+        redo: () => inner.update(id, changes),
+      });
+      return updated;
+    },
+
+    delete: async (id) => {
+      const before = await inner.get(id);
+      await inner.delete(id);
+      if (before) {
+        record("Delete task", { undo: () => inner.create(before), redo: () => inner.delete(id) });
+      }
+    },
+
+    // Undone as a batch as well: every touched task goes back to how it was
+    batch: async (operations) => {
+      const ids = new Set(operations.map(operation => (operation.type === "create" ? operation.task.id : operation.id)));
+      const snapshot = async () => new Map((await inner.list()).filter(task => ids.has(task.id)).map(task => [task.id, task]));
+      const before = await snapshot();
+      await inner.batch(operations);
+      const after = await snapshot();
+
+      const inverse = [...ids].flatMap((id): TaskOperation[] => {
+        const [previous, next] = [before.get(id), after.get(id)];
+        if (!previous) return next ? [{ type: "delete", id }] : [];
+        if (!next) return [{ type: "create", task: previous }];
+        const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+        keys.delete("id");
+        const changes = Object.fromEntries([...keys].map(key => [key, previous[key as keyof Task]]));
+        return [{ type: "update", id, changes }];
+      });
+      record("Edit tasks", { undo: () => inner.batch(inverse), redo: () => inner.batch(operations) });
+    },
+
+    clear: async () => {
+      const before = await inner.list();
+      await inner.clear();
+      record("Clear tasks", {
+        // Created oldest first so the list ends up newest first again
+        undo: async () => {
+          for (const task of [...before].reverse()) await inner.create(task);
+        },
+        redo: () => inner.clear(),
+      });
+    },
+  });
+
+  const group = async (label: string, run: (group: HistoryGroup) => Promise<unknown>) => {
+    const command: HistoryCommand = { id: crypto.randomUUID(), label, steps: [] };
+    const add = (step: HistoryStep) => command.steps.push(step);
+    try {
+      await run({ repository: recording((_, step) => add(step)), record: add });
+    } finally {
+      // Partial writes of a failed action are still undoable
+      if (command.steps.length > 0) push(command);
+    }
+    return command.steps.length > 0 ? command : null;
+  };
+
+  return {
+    repository: recording(record),
+    source: inner,
+    group,
+    record,
+    undo: () => serially(undoLatest),
+    redo,
+    undoCommand: (command) =>
+      serially(async () => {
+        if (latest(undoStack)?.id !== command.id) return false;
+        await undoLatest();
+        return true;
+      }),
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
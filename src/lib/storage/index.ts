@@ -0,0 +1,38 @@
+import type { TaskRepository, TaskStorageBackend } from "./TaskRepository";
+import { createLocalStorageTaskRepository } from "./localStorageTaskRepository";
+import { createIndexedDbTaskRepository, isIndexedDbAvailable } from "./indexedDbTaskRepository";
+import { createMemoryTaskRepository } from "./memoryTaskRepository";
+
+export type { TaskChanges, TaskListener, TaskOperation, TaskRepository, TaskStorageBackend } from "./TaskRepository";
+export type { LoadReport, QuarantinedRecord } from "./migrations";
+export { CURRENT_SCHEMA_VERSION } from "./migrations";
+export { ReadOnlyStorageError } from "./snapshotRepository";
+export type { HistoryCommand, HistoryGroup, HistoryState, HistoryStep, TaskHistory } from "./historyRepository";
+export { createTaskHistory, describeChanges, localStoreStep } from "./historyRepository";
+export { differingChanges, replacementChanges, stableJson } from "./taskDiff";
+export { createLocalStorageTaskRepository } from "./localStorageTaskRepository";
+export { createIndexedDbTaskRepository } from "./indexedDbTaskRepository";
+export { createMemoryTaskRepository } from "./memoryTaskRepository";
+
+const BACKENDS: TaskStorageBackend[] = ["localStorage", "indexedDB", "memory"];
+
+// Picks the backend configured through VITE_TASK_STORAGE, falling back to
+// localStorage when the value is unknown or IndexedDB is unavailable.
+export const createTaskRepository = (
+  backend: string | undefined = import.meta.env.VITE_TASK_STORAGE
+): TaskRepository => {
+  const selected = BACKENDS.find(candidate => candidate === backend) ?? "localStorage";
+
+  switch (selected) {
+    case "indexedDB":
+      if (isIndexedDbAvailable()) {
+        return createIndexedDbTaskRepository();
+      }
+      console.warn("IndexedDB is not available, falling back to localStorage");
+      return createLocalStorageTaskRepository();
+    case "memory":
+      return createMemoryTaskRepository();
+    default:
+      return createLocalStorageTaskRepository();
+  }
+};
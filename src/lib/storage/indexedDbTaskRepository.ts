@@ -0,0 +1,56 @@
+import type { TaskRepository } from "./TaskRepository";
+import { createSnapshotRepository } from "./snapshotRepository";
+import type { QuarantinedRecord } from "./migrations";
+
+const DB_NAME = "task-manager";
+const DB_VERSION = 1;
+const STORE_NAME = "snapshots";
+const TASKS_RECORD_KEY = "tasks";
+const QUARANTINE_RECORD_KEY = "quarantine";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME);
+    }
+  };
+  return requestToPromise(request);
+};
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+// The whole list is kept in a single record so every write is one atomic
+// transaction and ordering matches the other backends.
+export const createIndexedDbTaskRepository = (): TaskRepository => {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const getStore = async (mode: IDBTransactionMode) => {
+    if (!database) {
+      database = openDatabase();
+    }
+    return (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  };
+
+  return createSnapshotRepository("indexedDB", {
+    read: async () => {
+      const store = await getStore("readonly");
+      return (await requestToPromise(store.get(TASKS_RECORD_KEY))) ?? null;
+    },
+    write: async (envelope) => {
+      const store = await getStore("readwrite");
+      await requestToPromise(store.put(envelope, TASKS_RECORD_KEY));
+    },
+    quarantine: async (records) => {
+      const store = await getStore("readwrite");
+      const existing: QuarantinedRecord[] = (await requestToPromise(store.get(QUARANTINE_RECORD_KEY))) ?? [];
+      await requestToPromise(store.put([...existing, ...records], QUARANTINE_RECORD_KEY));
+    },
+  });
+};
@@ -0,0 +1,44 @@
+import type { TaskRepository } from "./TaskRepository";
+import { createSnapshotRepository } from "./snapshotRepository";
+import type { QuarantinedRecord } from "./migrations";
+
+export const TASKS_STORAGE_KEY = "tasks";
+
+export const createLocalStorageTaskRepository = (key: string = TASKS_STORAGE_KEY): TaskRepository => {
+  const quarantineKey = `${key}:quarantine`;
+
+  return createSnapshotRepository("localStorage", {
+    read: async () => {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return null;
+      try {
+        return JSON.parse(stored);
+      } catch {
+        // Hand the raw text on so it ends up in quarantine rather than lost
+        return stored;
+      }
+    },
+    write: async (envelope) => {
+      localStorage.setItem(key, JSON.stringify(envelope));
+    },
+    quarantine: async (records) => {
+      let existing: QuarantinedRecord[] = [];
+      try {
+        existing = JSON.parse(localStorage.getItem(quarantineKey) ?? "[]");
+      } catch (error) {
+        console.error("Failed to read quarantined tasks:", error);
+      }
+      localStorage.setItem(quarantineKey, JSON.stringify([...existing, ...records]));
+    },
+    watch: (onExternalChange) => {
+      // The storage event only fires for writes made by other tabs
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === key || event.key === null) {
+          onExternalChange();
+        }
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => window.removeEventListener("storage", handleStorage);
+    },
+  });
+};
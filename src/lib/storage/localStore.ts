@@ -0,0 +1,75 @@
+import type { z } from "zod";
+
+export interface LocalStore<T> {
+  get(): T;
+  set(value: T | ((previous: T) => T)): void;
+  subscribe(listener: () => void): () => void;
+}
+
+interface LocalStoreOptions<T> {
+  key: string;
+  schema: z.ZodType<T>;
+  fallback: T;
+}
+
+// Small validated values (tag registry, preferences...) that live next to the
+// task repository in localStorage. Falls back to memory when storage is
+// unavailable, and keeps other tabs in sync through the storage event.
+export const createLocalStore = <T>({ key, schema, fallback }: LocalStoreOptions<T>): LocalStore<T> => {
+  const listeners = new Set<() => void>();
+  let value: T | undefined;
+
+  const read = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored === null) return fallback;
+      const parsed = schema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+      console.error(`Ignoring invalid value stored under "${key}":`, parsed.error);
+    } catch (error) {
+      console.error(`Failed to read "${key}" from localStorage:`, error);
+    }
+    return fallback;
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) {
+      value = read();
+      notify();
+    }
+  };
+
+  const get = () => {
+    if (value === undefined) {
+      value = read();
+    }
+    return value;
+  };
+
+  return {
+    get,
+    set: (next) => {
+      value = typeof next === "function" ? (next as (previous: T) => T)(get()) : next;
+      try {
+        localStorage.setItem(key, JSON.stringify(value));
+      } catch (error) {
+        console.error(`Failed to save "${key}" to localStorage:`, error);
+      }
+      notify();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1) {
+        window.addEventListener("storage", handleStorage);
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) {
+          window.removeEventListener("storage", handleStorage);
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import type { Task } from "@/types/Task";
+import type { TaskRepository } from "./TaskRepository";
+import { createSnapshotRepository } from "./snapshotRepository";
+import { createEnvelope, type QuarantinedRecord } from "./migrations";
+
+// Non-persistent backend for tests and embedded previews. Also accepts a
+// stored envelope so migrations can be exercised without a browser.
+export const createMemoryTaskRepository = (initial: Task[] | unknown = []): TaskRepository => {
+  let stored: unknown = Array.isArray(initial) ? createEnvelope(initial as Task[]) : initial;
+  const quarantined: QuarantinedRecord[] = [];
+
+  return createSnapshotRepository("memory", {
+    read: async () => stored,
+    write: async (envelope) => {
+      stored = envelope;
+    },
+    quarantine: async (records) => {
+      quarantined.push(...records);
+    },
+  });
+};
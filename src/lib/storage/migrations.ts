@@ -0,0 +1,185 @@
+import { format } from "date-fns";
+import { DESCRIPTION_MAX_LENGTH, TITLE_MAX_LENGTH, taskSchema, type Task } from "@/types/Task";
+import { DEFAULT_PROJECT_ID } from "@/lib/projects";
+import { generateKeys } from "@/lib/fractionalIndex";
+import { localTimeZone, toDayKey } from "@/lib/dueDates";
+
+export const CURRENT_SCHEMA_VERSION = 6;
+
+// What every backend persists: the task records tagged with the schema
+// version they were written with.
+export interface TaskEnvelope {
+  version: number;
+  tasks: unknown[];
+}
+
+export interface QuarantinedRecord {
+  record: unknown;
+  version: number | null;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface LoadReport {
+  fromVersion: number | null;
+  toVersion: number;
+  loaded: number;
+  quarantined: QuarantinedRecord[];
+  // The tasks were written by a newer version of the app. What this version
+  // can read is shown, but nothing may be written back: that would
+  // downgrade the stored data.
+  readOnly: boolean;
+}
+
+export interface MigrationResult {
+  tasks: Task[];
+  report: LoadReport;
+  // True when the stored payload differs from what should be persisted now
+  needsWrite: boolean;
+}
+
+type Migration = (records: unknown[]) => unknown[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const mapRecords = (records: unknown[], upgrade: (record: Record<string, unknown>) => Record<string, unknown>) =>
+  records.map(record => (isRecord(record) ? upgrade(record) : record));
+
+// MIGRATIONS[n] upgrades records written at version n to version n + 1.
+// Append a new entry (and bump CURRENT_SCHEMA_VERSION) whenever the Task shape changes.
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: a bare array without an envelope, written before versioning existed
+  0: records =>
+    mapRecords(records, record => ({
+      ...record,
+      completed: Boolean(record.completed),
+      dueDate: record.dueDate || undefined,
+      createdAt: typeof record.createdAt === "string" ? record.createdAt : new Date().toISOString(),
+    })),
+  // v1: text fields were unbounded before the shared task schema added length limits
+  1: records =>
+    mapRecords(records, record => ({
+      ...record,
+      title: typeof record.title === "string" ? record.title.trim().slice(0, TITLE_MAX_LENGTH) : record.title,
+      description:
+        typeof record.description === "string" ? record.description.slice(0, DESCRIPTION_MAX_LENGTH) : record.description,
+    })),
+  // v2: all tasks lived in one global list before projects were introduced
+  2: records => mapRecords(records, record => ({ ...record, projectId: record.projectId ?? DEFAULT_PROJECT_ID })),
+  // v3: the manual order was the position in the stored list
+  3: records => {
+    const keys = generateKeys(records.length);
+    return records.map((record, index) => (isRecord(record) ? { ...record, order: keys[index] } : record));
+  },
+  // v4: completion was a boolean, refined by an optional board column. Ids
+  // match the statuses of the default workflow.
+  4: records =>
+    mapRecords(records, record => ({
+      ...record,
+      status: record.completed
+        ? "done"
+        : typeof record.status === "string" && record.status !== "done"
+          ? record.status
+          : "todo",
+    })),
+  // v5: due dates could be full timestamps. UTC midnight is what a date-only
+  // value turns into, so it keeps its day; other times become a due time in
+  // the zone the app runs in.
+  5: records =>
+    mapRecords(records, record => {
+      const dueDate = record.dueDate;
+      if (typeof dueDate !== "string" || dueDate.length <= 10 || Number.isNaN(Date.parse(dueDate))) return record;
+      if (/^\d{4}-\d{2}-\d{2}T00:00(:00(\.0+)?)?(Z|[+-]00:?00)$/.test(dueDate)) {
+        return { ...record, dueDate: dueDate.substring(0, 10) };
+      }
+      const due = new Date(dueDate);
+      return { ...record, dueDate: toDayKey(due), dueTime: format(due, "HH:mm"), timeZone: localTimeZone() };
+    }),
+};
+
+export const createEnvelope = (tasks: Task[]): TaskEnvelope => ({
+  version: CURRENT_SCHEMA_VERSION,
+  tasks,
+});
+
+const quarantine = (record: unknown, version: number | null, reason: string): QuarantinedRecord => ({
+  record,
+  version,
+  reason,
+  quarantinedAt: new Date().toISOString(),
+});
+
+const readEnvelope = (payload: unknown): TaskEnvelope | null => {
+  if (Array.isArray(payload)) {
+    return { version: 0, tasks: payload };
+  }
+  if (isRecord(payload) && Number.isInteger(payload.version) && Array.isArray(payload.tasks)) {
+    return { version: payload.version as number, tasks: payload.tasks };
+  }
+  return null;
+};
+
+// Upgrades a raw stored payload to the current schema. Records that fail
+// validation are returned as quarantined instead of failing the whole load.
+// A payload from a newer version is never rewritten.
+export const migrateTasks = (payload: unknown): MigrationResult => {
+  if (payload === null || payload === undefined) {
+    return {
+      tasks: [],
+      report: { fromVersion: null, toVersion: CURRENT_SCHEMA_VERSION, loaded: 0, quarantined: [], readOnly: false },
+      needsWrite: false,
+    };
+  }
+
+  const envelope = readEnvelope(payload);
+  if (!envelope) {
+    return {
+      tasks: [],
+      report: {
+        fromVersion: null,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        loaded: 0,
+        quarantined: [quarantine(payload, null, "Stored data is not a task list")],
+        readOnly: false,
+      },
+      needsWrite: true,
+    };
+  }
+
+  // Read as if current, which newer versions mostly still are
+  const readOnly = envelope.version > CURRENT_SCHEMA_VERSION;
+  let records = envelope.tasks;
+  for (let version = envelope.version; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration registered for task schema version ${version}`);
+    }
+    records = migration(records);
+  }
+
+  const tasks: Task[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  records.forEach((record, index) => {
+    const parsed = taskSchema.safeParse(record);
+    if (parsed.success) {
+      tasks.push(parsed.data);
+    } else {
+      const issue = parsed.error.issues[0];
+      const field = issue?.path.join(".") || "record";
+      quarantined.push(quarantine(envelope.tasks[index], envelope.version, `${field}: ${issue?.message ?? "invalid"}`));
+    }
+  });
+
+  return {
+    tasks,
+    report: {
+      fromVersion: envelope.version,
+      toVersion: CURRENT_SCHEMA_VERSION,
+      loaded: tasks.length,
+      quarantined,
+      readOnly,
+    },
+    needsWrite: !readOnly && (envelope.version < CURRENT_SCHEMA_VERSION || quarantined.length > 0),
+  };
+};
@@ -0,0 +1,160 @@
+import type { Task } from "@/types/Task";
+import type { TaskChanges, TaskListener, TaskOperation, TaskRepository, TaskStorageBackend } from "./TaskRepository";
+import { createEnvelope, migrateTasks, type LoadReport, type QuarantinedRecord, type TaskEnvelope } from "./migrations";
+
+// A backend only has to know how to read and write the whole stored payload;
+// migration, caching, ordering and change notification live here.
+export interface SnapshotAdapter {
+  // Returns whatever is stored, unvalidated (null when nothing is)
+  read(): Promise<unknown>;
+  write(envelope: TaskEnvelope): Promise<void>;
+  // Keeps records that failed validation so they can be recovered later
+  quarantine(records: QuarantinedRecord[]): Promise<void>;
+  // Lets the backend push external changes (e.g. another browser tab)
+  watch?(onExternalChange: () => void): () => void;
+}
+
+// Thrown by writes while the stored tasks come from a newer version of the app
+export class ReadOnlyStorageError extends Error {
+  constructor() {
+    super("Your tasks were saved by a newer version of the app, so this one can't change them");
+    this.name = "ReadOnlyStorageError";
+  }
+}
+
+export const createSnapshotRepository = (
+  backend: TaskStorageBackend,
+  adapter: SnapshotAdapter
+): TaskRepository => {
+  const listeners = new Set<TaskListener>();
+  let cache: Promise<Task[]> | null = null;
+  let report: Promise<LoadReport> | null = null;
+  let pending: Promise<unknown> = Promise.resolve();
+  let stopWatching: (() => void) | null = null;
+  let readOnly = false;
+
+  const readAndMigrate = async () => {
+    const result = migrateTasks(await adapter.read());
+    readOnly = result.report.readOnly;
+    // Quarantining would write too: the newer app may read those records
+    if (readOnly) return result;
+    if (result.report.quarantined.length > 0) {
+      await adapter.quarantine(result.report.quarantined);
+    }
+    if (result.needsWrite) {
+      await adapter.write(createEnvelope(result.tasks));
+    }
+    return result;
+  };
+
+  const load = () => {
+    if (!cache) {
+      const result = readAndMigrate();
+      const loaded = result.then(({ tasks }) => tasks);
+      cache = loaded;
+      // A failed read (a storage hiccup, say) is tried again on the next call
+      loaded.catch(() => {
+        if (cache === loaded) cache = null;
+      });
+      // Only the first successful load of the session is reported
+      if (!report) {
+        const loadedReport = result.then(({ report }) => report);
+        report = loadedReport;
+        loadedReport.catch(() => {
+          if (report === loadedReport) report = null;
+        });
+      }
+    }
+    return cache;
+  };
+
+  const notify = (tasks: Task[]) => {
+    listeners.forEach(listener => listener(tasks));
+  };
+
+  // Writes are chained so concurrent mutations never read a stale list
+  const mutate = <T>(apply: (tasks: Task[]) => { tasks: Task[]; result: T }) => {
+    const run = pending.then(async () => {
+      const loaded = await load();
+      if (readOnly) throw new ReadOnlyStorageError();
+      const { tasks, result } = apply(loaded);
+      await adapter.write(createEnvelope(tasks));
+      cache = Promise.resolve(tasks);
+      notify(tasks);
+      return result;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const findIndex = (tasks: Task[], id: string) => {
+    const index = tasks.findIndex(task => task.id === id);
+    if (index === -1) {
+      throw new Error(`Task "${id}" does not exist`);
+    }
+    return index;
+  };
+
+  // Pure, so a failing operation leaves the stored list untouched
+  const apply = (tasks: Task[], operation: TaskOperation): Task[] => {
+    switch (operation.type) {
+      case "create":
+        if (tasks.some(existing => existing.id === operation.task.id)) {
+          throw new Error(`Task "${operation.task.id}" already exists`);
+        }
+        return [operation.task, ...tasks];
+      case "update": {
+        const index = findIndex(tasks, operation.id);
+        const next = [...tasks];
+        next[index] = { ...tasks[index], ...operation.changes, id: operation.id };
+        return next;
+      }
+      case "delete":
+        return tasks.filter(task => task.id !== operation.id);
+    }
+  };
+
+  return {
+    backend,
+
+    list: () => load(),
+
+    loadReport: () => {
+      load();
+      return report;
+    },
+
+    get: async (id) => (await load()).find(task => task.id === id),
+
+    create: (task) => mutate(tasks => ({ tasks: apply(tasks, { type: "create", task }), result: task })),
+
+    update: (id, changes: TaskChanges) =>
+      mutate(tasks => {
+        const next = apply(tasks, { type: "update", id, changes });
+        return { tasks: next, result: next[findIndex(next, id)] };
+      }),
+
+    delete: (id) => mutate(tasks => ({ tasks: apply(tasks, { type: "delete", id }), result: undefined })),
+
+    batch: (operations) => mutate(tasks => ({ tasks: operations.reduce(apply, tasks), result: undefined })),
+
+    clear: () => mutate(() => ({ tasks: [], result: undefined })),
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (listeners.size === 1 && adapter.watch) {
+        stopWatching = adapter.watch(() => {
+          cache = null;
+          load().then(notify).catch(error => console.error("Failed to reload tasks:", error));
+        });
+      }
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && stopWatching) {
+          stopWatching();
+          stopWatching = null;
+        }
+      };
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import type { Task } from "@/types/Task";
+import type { TaskChanges } from "./TaskRepository";
+
+// Key order differs between files, servers and storage, so compare sorted
+export const stableJson = (value: unknown): string =>
+  JSON.stringify(value, (_, nested) =>
+    nested && typeof nested === "object" && !Array.isArray(nested)
+      ? Object.fromEntries(Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)))
+      : nested
+  );
+
+// Fields of `next` replacing those of `previous`; missing ones are cleared
+export const replacementChanges = (previous: Task, next: Task): TaskChanges => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  keys.delete("id");
+  return Object.fromEntries([...keys].map(key => [key, next[key as keyof Task]]));
+};
+
+// Only the fields that differ, so writing them leaves alone whatever else
+// changed in the meantime
+export const differingChanges = (previous: Task, next: Task): TaskChanges =>
+  Object.fromEntries(
+    Object.entries(replacementChanges(previous, next)).filter(
+      ([key, value]) => stableJson(value) !== stableJson(previous[key as keyof Task])
+    )
+  );
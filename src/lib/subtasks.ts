@@ -0,0 +1,88 @@
+import type { Subtask, Task } from "@/types/Task";
+
+// Nesting deeper than this is still stored, but the checklist UI stops
+// offering "add step" below it.
+export const MAX_SUBTASK_DEPTH = 3;
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+export const createSubtask = (title: string): Subtask => ({
+  id: crypto.randomUUID(),
+  title: title.trim(),
+  completed: false,
+});
+
+// Progress counts leaf steps only, so a parent step never counts twice
+export const getSubtaskProgress = (subtasks: Subtask[] = []): SubtaskProgress =>
+  subtasks.reduce<SubtaskProgress>(
+    (progress, subtask) => {
+      if (subtask.subtasks?.length) {
+        const nested = getSubtaskProgress(subtask.subtasks);
+        return { done: progress.done + nested.done, total: progress.total + nested.total };
+      }
+      return { done: progress.done + (subtask.completed ? 1 : 0), total: progress.total + 1 };
+    },
+    { done: 0, total: 0 }
+  );
+
+// Every step at every depth, parents before their children
+export const flattenSubtasks = (subtasks: Subtask[] = []): Subtask[] =>
+  subtasks.flatMap(subtask => [subtask, ...flattenSubtasks(subtask.subtasks)]);
+
+const mapSubtasks = (subtasks: Subtask[], update: (subtask: Subtask) => Subtask): Subtask[] =>
+  subtasks.map(subtask =>
+    update(subtask.subtasks ? { ...subtask, subtasks: mapSubtasks(subtask.subtasks, update) } : subtask)
+  );
+
+export const toggleSubtask = (subtasks: Subtask[], id: string): Subtask[] =>
+  mapSubtasks(subtasks, subtask => (subtask.id === id ? { ...subtask, completed: !subtask.completed } : subtask));
+
+export const renameSubtask = (subtasks: Subtask[], id: string, title: string): Subtask[] =>
+  mapSubtasks(subtasks, subtask => (subtask.id === id ? { ...subtask, title: title.trim() } : subtask));
+
+// Adds a step at the top level when parentId is null
+export const addSubtask = (subtasks: Subtask[], parentId: string | null, title: string): Subtask[] => {
+  const subtask = createSubtask(title);
+  if (parentId === null) {
+    return [...subtasks, subtask];
+  }
+  return mapSubtasks(subtasks, parent =>
+    parent.id === parentId ? { ...parent, subtasks: [...(parent.subtasks ?? []), subtask] } : parent
+  );
+};
+
+export const removeSubtask = (subtasks: Subtask[], id: string): Subtask[] =>
+  subtasks
+    .filter(subtask => subtask.id !== id)
+    .map(subtask => (subtask.subtasks ? { ...subtask, subtasks: removeSubtask(subtask.subtasks, id) } : subtask));
+
+export const setAllSubtasksCompleted = (subtasks: Subtask[], completed: boolean): Subtask[] =>
+  mapSubtasks(subtasks, subtask => ({ ...subtask, completed }));
+
+// Recomputes every parent step from its children (bottom-up)
+const deriveSubtasks = (subtasks: Subtask[]): Subtask[] =>
+  subtasks.map(subtask => {
+    if (!subtask.subtasks?.length) return subtask;
+    const children = deriveSubtasks(subtask.subtasks);
+    return { ...subtask, subtasks: children, completed: children.every(child => child.completed) };
+  });
+
+// Returns the changes to persist after the checklist of a task was edited,
+// applying auto-completion when the task opted into it.
+export const withSubtasks = (task: Task, subtasks: Subtask[]): Pick<Task, "subtasks" | "completed"> => {
+  if (!task.completeWithSubtasks || subtasks.length === 0) {
+    return { subtasks, completed: task.completed };
+  }
+  const derived = deriveSubtasks(subtasks);
+  return { subtasks: derived, completed: derived.every(subtask => subtask.completed) };
+};
+
+// Changes for completing or reopening a task outright. Completing an
+// auto-completing task ticks off all of its steps too.
+export const completionChanges = (task: Task, completed: boolean): Pick<Task, "subtasks" | "completed"> =>
+  task.completeWithSubtasks && task.subtasks?.length
+    ? { completed, subtasks: setAllSubtasksCompleted(task.subtasks, completed) }
+    : { completed };
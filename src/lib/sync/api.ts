@@ -0,0 +1,94 @@
+import { taskSchema, type Task } from "@/types/Task";
+import type { SyncOperation } from "@/types/Sync";
+
+// Failed requests are retried this many times, waiting twice as long each time
+export const MAX_SYNC_RETRIES = 5;
+const MAX_RETRY_DELAY = 30_000;
+
+export class SyncRequestError extends Error {
+  // `status` is null when the server couldn't be reached at all
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+  }
+
+  // Network failures, timeouts, rate limiting and server errors may pass on a
+  // later attempt; anything else means the server rejected the request
+  get retryable() {
+    return this.status === null || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export const shouldRetrySync = (failureCount: number, error: Error) =>
+  error instanceof SyncRequestError && error.retryable && failureCount < MAX_SYNC_RETRIES;
+
+// 1s, 2s, 4s... with some jitter so clients that went offline together don't
+// come back in lockstep
+export const syncRetryDelay = (attempt: number) =>
+  Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY) * (0.75 + Math.random() * 0.5);
+
+// The REST API of a sync server:
+//   GET    {baseUrl}/tasks       every task
+//   GET    {baseUrl}/tasks/:id   one task (404 when there is none)
+//   PUT    {baseUrl}/tasks/:id   creates or replaces a task
+//   DELETE {baseUrl}/tasks/:id   deletes a task (404 counts as deleted)
+export interface TaskApi {
+  list(): Promise<Task[]>;
+  get(id: string): Promise<Task | null>;
+  push(operation: SyncOperation): Promise<void>;
+}
+
+export const createTaskApi = (
+  baseUrl: string,
+  fetcher: typeof fetch = (input, init) => fetch(input, init)
+): TaskApi => {
+  const taskUrl = (id?: string) => `${baseUrl.replace(/\/+$/, "")}/tasks${id ? `/${encodeURIComponent(id)}` : ""}`;
+
+  // A missing task is an answer when fetching or deleting one, not a failure
+  const request = async (url: string, init?: RequestInit, allowNotFound = false) => {
+    let response: Response;
+    try {
+      response = await fetcher(url, { ...init, headers: { "Content-Type": "application/json", ...init?.headers } });
+    } catch (error) {
+      throw new SyncRequestError(error instanceof Error ? error.message : "The sync server can't be reached", null);
+    }
+    if (!response.ok && !(allowNotFound && response.status === 404)) {
+      const text = await response.text().catch(() => "");
+      throw new SyncRequestError(text || `The sync server answered ${response.status}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    list: async () => {
+      const body: unknown = await (await request(taskUrl())).json();
+      if (!Array.isArray(body)) {
+        throw new SyncRequestError("The sync server didn't send a task list", 502);
+      }
+      // One bad record shouldn't stop the rest from syncing
+      return body.flatMap(record => {
+        const parsed = taskSchema.safeParse(record);
+        if (parsed.success) return [parsed.data];
+        console.warn("Ignoring invalid task from the sync server:", parsed.error);
+        return [];
+      });
+    },
+
+    get: async (id) => {
+      const response = await request(taskUrl(id), undefined, true);
+      if (response.status === 404) return null;
+      const parsed = taskSchema.safeParse(await response.json());
+      if (!parsed.success) {
+        throw new SyncRequestError(`The sync server sent an invalid task: ${parsed.error.issues[0].message}`, 502);
+      }
+      return parsed.data;
+    },
+
+    push: async (operation) => {
+      if (operation.type === "put") {
+        await request(taskUrl(operation.task.id), { method: "PUT", body: JSON.stringify(operation.task) });
+      } else {
+        await request(taskUrl(operation.id), { method: "DELETE" }, true);
+      }
+    },
+  };
+};
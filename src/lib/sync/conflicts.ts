@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { syncConflictSchema, type FieldConflict, type SyncConflict } from "@/types/Sync";
+import type { Task } from "@/types/Task";
+
+// Merges that needed a guess, kept until someone reviews them
+export const conflictStore = createLocalStore<SyncConflict[]>({
+  key: "sync-conflicts",
+  schema: z.array(syncConflictSchema),
+  fallback: [],
+});
+
+// A task has at most one open conflict; a newer one replaces it
+export const recordConflict = (task: Task, conflicts: FieldConflict[], now: Date = new Date()) => {
+  conflictStore.set(previous => [
+    ...previous.filter(conflict => conflict.taskId !== task.id),
+    { id: crypto.randomUUID(), taskId: task.id, title: task.title, detectedAt: now.toISOString(), conflicts },
+  ]);
+};
+
+export const dismissConflict = (id: string) => {
+  conflictStore.set(previous => previous.filter(conflict => conflict.id !== id));
+};
@@ -0,0 +1,112 @@
+import type { Task } from "@/types/Task";
+import type { FieldConflict } from "@/types/Sync";
+import { stableJson, type TaskChanges } from "@/lib/storage";
+
+// Fields that only make sense together are merged as one: a status with the
+// completion flag it implies, a due date with its time, zone and reminders
+const FIELD_GROUPS = [
+  ["status", "completed"],
+  ["dueDate", "dueTime", "timeZone", "reminders"],
+];
+
+// Bookkeeping rather than content
+const UNMERGED_FIELDS = ["id", "fieldUpdatedAt"];
+
+// Merged by timestamp without asking: nobody wants to pick between two
+// positions in a list
+const SILENT_FIELDS = ["order"];
+
+export const MERGE_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  priority: "Priority",
+  status: "Status",
+  dueDate: "Due date",
+  tags: "Tags",
+  subtasks: "Subtasks",
+  recurrence: "Repeat",
+  projectId: "Project",
+  completeWithSubtasks: "Complete with subtasks",
+  deletedAt: "Trash",
+};
+
+export interface MergeResult {
+  task: Task;
+  conflicts: FieldConflict[];
+}
+
+const pick = (task: Task, fields: string[]) =>
+  Object.fromEntries(fields.map(field => [field, task[field as keyof Task]]));
+
+// The latest change to any of the fields, or null when none was recorded
+const changedAt = (task: Task, fields: string[]) =>
+  fields
+    .map(field => task.fieldUpdatedAt?.[field])
+    .filter(Boolean)
+    .sort()
+    .pop() ?? null;
+
+const groupFields = (keys: Set<string>) => [
+  ...FIELD_GROUPS.filter(group => group.some(field => keys.has(field))),
+  ...[...keys].filter(field => !FIELD_GROUPS.some(group => group.includes(field))).map(field => [field]),
+];
+
+// Three-way merge of a task edited here (`local`) and on another device
+// (`remote`), both starting from `base`. A field changed on one side only
+// takes that side's value. When both changed it differently, the later edit
+// wins for now and the clash is reported. Without a base nothing can tell
+// which side changed a field, so the later edit wins silently.
+export const mergeTasks = (base: Task | null, local: Task, remote: Task): MergeResult => {
+  const keys = new Set([base, local, remote].flatMap(task => (task ? Object.keys(task) : [])));
+  UNMERGED_FIELDS.forEach(field => keys.delete(field));
+
+  const merged: Record<string, unknown> = { id: local.id };
+  const fieldUpdatedAt: Record<string, string> = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const fields of groupFields(keys)) {
+    const localValues = pick(local, fields);
+    const remoteValues = pick(remote, fields);
+    const localJson = stableJson(localValues);
+    const remoteJson = stableJson(remoteValues);
+    const baseJson = base ? stableJson(pick(base, fields)) : null;
+    const localChangedAt = changedAt(local, fields);
+    const remoteChangedAt = changedAt(remote, fields);
+    const remoteIsLater = (remoteChangedAt ?? remote.createdAt) > (localChangedAt ?? local.createdAt);
+
+    let winner: "local" | "remote";
+    if (localJson === remoteJson || remoteJson === baseJson) {
+      winner = "local";
+    } else if (localJson === baseJson) {
+      winner = "remote";
+    } else {
+      winner = remoteIsLater ? "remote" : "local";
+      if (base && !fields.some(field => SILENT_FIELDS.includes(field))) {
+        conflicts.push({ fields, local: localValues, remote: remoteValues, localChangedAt, remoteChangedAt, applied: winner });
+      }
+    }
+
+    const source = winner === "local" ? local : remote;
+    for (const field of fields) {
+      if (source[field as keyof Task] !== undefined) merged[field] = source[field as keyof Task];
+      const time = source.fieldUpdatedAt?.[field];
+      if (time) fieldUpdatedAt[field] = time;
+    }
+  }
+
+  if (Object.keys(fieldUpdatedAt).length > 0) merged.fieldUpdatedAt = fieldUpdatedAt;
+  return { task: merged as Task, conflicts };
+};
+
+// Stamps the fields an update changes with the time of the change
+export const stampChanges = (task: Task, changes: TaskChanges, now: Date = new Date()): TaskChanges => {
+  const changed = Object.keys(changes).filter(
+    field => !UNMERGED_FIELDS.includes(field) && stableJson(changes[field as keyof TaskChanges]) !== stableJson(task[field as keyof Task])
+  );
+  if (changed.length === 0) return changes;
+  const time = now.toISOString();
+  return {
+    ...changes,
+    fieldUpdatedAt: { ...task.fieldUpdatedAt, ...Object.fromEntries(changed.map(field => [field, time])) },
+  };
+};
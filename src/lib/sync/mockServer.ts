@@ -0,0 +1,71 @@
+// An in-memory implementation of the sync API (see TaskApi) for development
+// and tests. The Vite dev server mounts it at /mock-api; tests can pass
+// `fetch` to createTaskApi instead of the global one. It stores whatever
+// JSON it receives, so it has no imports from the app.
+
+export interface MockTaskServerOptions {
+  // Delay before each response, in milliseconds
+  latency?: number;
+  // Share of requests answered with 503, between 0 and 1
+  failureRate?: number;
+}
+
+type StoredTask = Record<string, unknown> & { id: string };
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+export const createMockTaskServer = ({ latency = 0, failureRate = 0 }: MockTaskServerOptions = {}) => {
+  const tasks = new Map<string, StoredTask>();
+  let online = true;
+
+  const handle = async (request: Request): Promise<Response> => {
+    if (latency > 0) await new Promise(resolve => setTimeout(resolve, latency));
+    if (!online) throw new TypeError("Failed to fetch");
+    if (Math.random() < failureRate) return json({ error: "Service unavailable" }, 503);
+
+    const match = new URL(request.url).pathname.match(/\/tasks(?:\/([^/]+))?\/?$/);
+    if (!match) return json({ error: "Not found" }, 404);
+    const id = match[1] === undefined ? null : decodeURIComponent(match[1]);
+
+    if (id === null) {
+      return request.method === "GET" ? json([...tasks.values()]) : json({ error: "Method not allowed" }, 405);
+    }
+    switch (request.method) {
+      case "GET": {
+        const task = tasks.get(id);
+        return task ? json(task) : json({ error: "Not found" }, 404);
+      }
+      case "PUT": {
+        let body: unknown;
+        try {
+          body = await request.json();
+        } catch {
+          return json({ error: "Body must be JSON" }, 400);
+        }
+        if (!body || typeof body !== "object" || (body as StoredTask).id !== id) {
+          return json({ error: "Body must be a task with the id of the URL" }, 400);
+        }
+        tasks.set(id, body as StoredTask);
+        return json(body);
+      }
+      case "DELETE":
+        return tasks.delete(id) ? new Response(null, { status: 204 }) : json({ error: "Not found" }, 404);
+      default:
+        return json({ error: "Method not allowed" }, 405);
+    }
+  };
+
+  return {
+    handle,
+    fetch: (input: string | URL | Request, init?: RequestInit) => handle(new Request(input, init)),
+    tasks: () => [...tasks.values()],
+    // Offline, requests fail the way fetch does without a network
+    setOnline: (value: boolean) => {
+      online = value;
+    },
+    reset: () => tasks.clear(),
+  };
+};
+
+export type MockTaskServer = ReturnType<typeof createMockTaskServer>;
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { outboxEntrySchema, syncMetaSchema, type OutboxEntry, type SyncMeta, type SyncOperation } from "@/types/Sync";
+import type { Task } from "@/types/Task";
+
+// Changes not yet accepted by the sync server, oldest first. Kept in
+// localStorage so edits made offline survive a reload.
+export const outboxStore = createLocalStore<OutboxEntry[]>({
+  key: "sync-outbox",
+  schema: z.array(outboxEntrySchema),
+  fallback: [],
+});
+
+export const syncMetaStore = createLocalStore<SyncMeta>({
+  key: "sync-meta",
+  schema: syncMetaSchema,
+  fallback: { lastSyncedAt: null },
+});
+
+export const operationTaskId = (operation: SyncOperation) =>
+  operation.type === "put" ? operation.task.id : operation.id;
+
+// Queues the operations behind everything already waiting. Only the latest
+// state of a task matters, so older entries for the same tasks are dropped;
+// a replaced put hands on its base, which is what the server last had.
+export const enqueue = (operations: SyncOperation[], now: Date = new Date()) => {
+  if (operations.length === 0) return;
+  const ids = new Set(operations.map(operationTaskId));
+  outboxStore.set(previous => {
+    const replaced = new Map(previous.map(entry => [operationTaskId(entry.operation), entry.operation]));
+    return [
+      ...previous.filter(entry => !ids.has(operationTaskId(entry.operation))),
+      ...operations.map(operation => {
+        const older = replaced.get(operationTaskId(operation));
+        const next: SyncOperation =
+          operation.type === "put" && older ? { ...operation, base: older.type === "put" ? older.base ?? null : null } : operation;
+        return { id: crypto.randomUUID(), operation: next, queuedAt: now.toISOString() };
+      }),
+    ];
+  });
+};
+
+// Removes an entry once the server has it. An entry replaced in the meantime
+// is already gone, and its replacement still goes out, now based on the
+// `pushed` version so it isn't mistaken for a clash with itself.
+export const acknowledge = (entryId: string, pushed: Task | null = null) => {
+  outboxStore.set(previous =>
+    previous
+      .filter(entry => entry.id !== entryId)
+      .map(entry =>
+        pushed && entry.operation.type === "put" && entry.operation.task.id === pushed.id
+          ? { ...entry, operation: { ...entry.operation, base: pushed } }
+          : entry
+      )
+  );
+};
+
+// Swaps the task a queued put sends, once changes from other devices were
+// merged into it
+export const replaceQueuedTask = (entryId: string, task: Task) => {
+  outboxStore.set(previous =>
+    previous.map(entry =>
+      entry.id === entryId && entry.operation.type === "put" ? { ...entry, operation: { ...entry.operation, task } } : entry
+    )
+  );
+};
@@ -0,0 +1,159 @@
+import type { Task } from "@/types/Task";
+import type { FieldConflict, OutboxEntry, SyncOperation } from "@/types/Sync";
+import { differingChanges, replacementChanges, stableJson, type TaskOperation, type TaskRepository } from "@/lib/storage";
+import type { TaskApi } from "./api";
+import { recordConflict } from "./conflicts";
+import { mergeTasks, stampChanges } from "./merge";
+import { enqueue, operationTaskId, outboxStore, replaceQueuedTask, syncMetaStore } from "./outbox";
+
+export interface PushResult {
+  // The version the server now has; null for a deletion
+  pushed: Task | null;
+  conflicts: FieldConflict[];
+}
+
+export interface TaskSync {
+  // Writes to the local repository, which the app reads from, and queues
+  // each change for the server. Local writes land at once; the server
+  // catches up when it can be reached.
+  repository: TaskRepository;
+  api: TaskApi;
+  // Sends a queued change, merging it with whatever other devices changed
+  // since it was made
+  push(entry: OutboxEntry): Promise<PushResult>;
+  // Brings the local tasks in line with the server's, leaving the ones with
+  // queued changes alone
+  reconcile(remote: Task[], now?: Date): Promise<void>;
+}
+
+export const createTaskSync = (local: TaskRepository, api: TaskApi): TaskSync => {
+  // Queues the current state of each task, the task itself or its deletion,
+  // based on the version from before the write
+  const queueTasks = async (before: Task[], ids: string[]) => {
+    const tasks = await local.list();
+    enqueue(
+      [...new Set(ids)].map((id): SyncOperation => {
+        const task = tasks.find(candidate => candidate.id === id);
+        const base = before.find(candidate => candidate.id === id) ?? null;
+        return task ? { type: "put", task, base } : { type: "delete", id };
+      })
+    );
+  };
+
+  const stampOperation = (tasks: Task[], operation: TaskOperation, now: Date): TaskOperation => {
+    const task = operation.type === "update" && tasks.find(candidate => candidate.id === operation.id);
+    return task && operation.type === "update" ? { ...operation, changes: stampChanges(task, operation.changes, now) } : operation;
+  };
+
+  const repository: TaskRepository = {
+    backend: local.backend,
+    list: () => local.list(),
+    loadReport: () => local.loadReport(),
+    get: (id) => local.get(id),
+
+    create: async (task) => {
+      const created = await local.create(task);
+      enqueue([{ type: "put", task: created, base: null }]);
+      return created;
+    },
+
+    update: async (id, changes) => {
+      const before = await local.get(id);
+      const updated = await local.update(id, before ? stampChanges(before, changes) : changes);
+      enqueue([{ type: "put", task: updated, base: before ?? null }]);
+      return updated;
+    },
+
+    delete: async (id) => {
+      await local.delete(id);
+      enqueue([{ type: "delete", id }]);
+    },
+
+    clear: async () => {
+      const ids = (await local.list()).map(task => task.id);
+      await local.clear();
+      enqueue(ids.map(id => ({ type: "delete", id })));
+    },
+
+    batch: async (operations) => {
+      const before = await local.list();
+      const now = new Date();
+      await local.batch(operations.map(operation => stampOperation(before, operation, now)));
+      await queueTasks(
+        before,
+        operations.map(operation => (operation.type === "create" ? operation.task.id : operation.id))
+      );
+    },
+
+    subscribe: (listener) => local.subscribe(listener),
+  };
+
+  // Puts are merged with the server's current version when another device
+  // changed the task since `base`. A task deleted elsewhere comes back with
+  // the local edit; a local deletion wins over edits made elsewhere.
+  const push = async ({ id, operation }: OutboxEntry): Promise<PushResult> => {
+    if (operation.type === "delete") {
+      await api.push(operation);
+      return { pushed: null, conflicts: [] };
+    }
+    const { task, base = null } = operation;
+    const current = await api.get(task.id);
+    if (!current || stableJson(current) === stableJson(base) || stableJson(current) === stableJson(task)) {
+      await api.push({ type: "put", task });
+      return { pushed: task, conflicts: [] };
+    }
+
+    const merged = mergeTasks(base, task, current);
+    await api.push({ type: "put", task: merged.task });
+    if (merged.conflicts.length > 0) recordConflict(merged.task, merged.conflicts);
+    await applyMerged(id, task, merged.task).catch(error => console.warn("Failed to apply merged task:", error));
+    return { pushed: merged.task, conflicts: merged.conflicts };
+  };
+
+  // Brings what other devices changed into the local task. Not queued again:
+  // the server already has the merged version. The task may have been edited
+  // here while the push was out, though, and that edit is still queued: it is
+  // merged on top, so neither overwrites the other and the queued put carries
+  // the other devices' changes too.
+  const applyMerged = async (entryId: string, pushed: Task, merged: Task) => {
+    const later = outboxStore.get().find(entry => entry.id !== entryId && operationTaskId(entry.operation) === pushed.id);
+    if (later?.operation.type === "delete") return;
+    const latest = later?.operation.type === "put" ? later.operation.task : pushed;
+    const rebased = later ? mergeTasks(pushed, latest, merged).task : merged;
+    const changes = differingChanges(latest, rebased);
+    if (Object.keys(changes).length === 0) return;
+    await local.update(pushed.id, changes);
+    if (later) replaceQueuedTask(later.id, rebased);
+  };
+
+  // Written straight to the local repository: pulled changes are neither
+  // queued again nor undoable
+  const reconcile = async (remote: Task[], now: Date = new Date()) => {
+    const tasks = await local.list();
+    const pending = new Set(outboxStore.get().map(entry => operationTaskId(entry.operation)));
+    const localById = new Map(tasks.map(task => [task.id, task]));
+    const remoteIds = new Set(remote.map(task => task.id));
+
+    const operations = remote.flatMap((task): TaskOperation[] => {
+      const existing = localById.get(task.id);
+      if (pending.has(task.id)) return [];
+      if (!existing) return [{ type: "create", task }];
+      if (stableJson(existing) === stableJson(task)) return [];
+      return [{ type: "update", id: task.id, changes: replacementChanges(existing, task) }];
+    });
+
+    // Tasks the server doesn't have were deleted there, except on the first
+    // sync, when they are the ones this device had before syncing was set up
+    const unknown = tasks.filter(task => !remoteIds.has(task.id) && !pending.has(task.id));
+    if (syncMetaStore.get().lastSyncedAt === null) {
+      enqueue(unknown.map(task => ({ type: "put", task, base: null })));
+    } else {
+      operations.push(...unknown.map((task): TaskOperation => ({ type: "delete", id: task.id })));
+    }
+
+    if (operations.length > 0) await local.batch(operations);
+    syncMetaStore.set({ lastSyncedAt: now.toISOString() });
+  };
+
+  return { repository, api, push, reconcile };
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { tagSchema, type Tag } from "@/types/Tag";
+import { createLocalStore } from "@/lib/storage/localStore";
+
+export const TAG_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+];
+
+export const tagStore = createLocalStore<Tag[]>({
+  key: "tags",
+  schema: z.array(tagSchema),
+  fallback: [],
+});
+
+export const normalizeTagName = (name: string) => name.trim().replace(/\s+/g, "-").toLowerCase();
+
+export const findTagByName = (tags: Tag[], name: string) => {
+  const normalized = normalizeTagName(name);
+  return tags.find(tag => tag.name === normalized);
+};
+
+// New tags cycle through the palette so neighbours rarely share a colour
+export const createTag = (tags: Tag[], name: string): Tag => ({
+  id: crypto.randomUUID(),
+  name: normalizeTagName(name),
+  color: TAG_COLORS[tags.length % TAG_COLORS.length],
+});
+
+// Resolves a task's tag ids against the registry, dropping deleted tags
+export const resolveTags = (tags: Tag[], tagIds: string[] = []) => {
+  const byId = new Map(tags.map(tag => [tag.id, tag]));
+  return tagIds.map(id => byId.get(id)).filter((tag): tag is Tag => Boolean(tag));
+};
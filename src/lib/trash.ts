@@ -0,0 +1,38 @@
+import { addDays, differenceInCalendarDays } from "date-fns";
+import { trashSettingsSchema, type TrashSettings } from "@/types/Trash";
+import type { Task } from "@/types/Task";
+import { createLocalStore } from "@/lib/storage/localStore";
+
+export const TRASH_PATH = "/trash";
+
+export const RETENTION_OPTIONS: { value: number | null; label: string }[] = [
+  { value: 7, label: "After 7 days" },
+  { value: 30, label: "After 30 days" },
+  { value: 90, label: "After 90 days" },
+  { value: null, label: "Never" },
+];
+
+export const trashSettingsStore = createLocalStore<TrashSettings>({
+  key: "trash",
+  schema: trashSettingsSchema,
+  fallback: { retentionDays: 30 },
+});
+
+export const isTrashed = (task: Task) => Boolean(task.deletedAt);
+
+// When a trashed task is purged, or null when the trash is kept forever
+export const purgeDate = (task: Task, retentionDays: number | null) =>
+  retentionDays === null ? null : addDays(new Date(task.deletedAt), retentionDays);
+
+export const isExpired = (task: Task, retentionDays: number | null, now: Date = new Date()) => {
+  const purgeAt = purgeDate(task, retentionDays);
+  return purgeAt !== null && purgeAt <= now;
+};
+
+export const describePurge = (task: Task, retentionDays: number | null, now: Date = new Date()) => {
+  const purgeAt = purgeDate(task, retentionDays);
+  if (!purgeAt) return "Kept until you delete it";
+  const days = differenceInCalendarDays(purgeAt, now);
+  if (days <= 0) return "Deleted permanently today";
+  return `Deleted permanently in ${days} ${days === 1 ? "day" : "days"}`;
+};
@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { workflowSchema, type StatusCategory, type Workflow, type WorkflowStatus } from "@/types/Workflow";
+import type { Task } from "@/types/Task";
+import type { TaskChanges } from "@/lib/storage";
+import { createLocalStore } from "@/lib/storage/localStore";
+import { completionChanges } from "@/lib/subtasks";
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  not_started: "Not started",
+  active: "Active",
+  done: "Done",
+};
+
+// Projects use this until their workflow is customised. The ids match the
+// statuses tasks were migrated onto.
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { id: "todo", name: "Todo", category: "not_started" },
+    { id: "in_progress", name: "In progress", category: "active" },
+    { id: "review", name: "Review", category: "active" },
+    { id: "done", name: "Done", category: "done" },
+  ],
+  transitions: {},
+};
+
+// Customised workflows keyed by project id
+export const workflowStore = createLocalStore<Record<string, Workflow>>({
+  key: "workflows",
+  schema: z.record(workflowSchema),
+  fallback: {},
+});
+
+export const getWorkflow = (workflows: Record<string, Workflow>, projectId: string) =>
+  workflows[projectId] ?? DEFAULT_WORKFLOW;
+
+export const createWorkflowStatus = (name: string, category: StatusCategory): WorkflowStatus => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  category,
+});
+
+const firstInCategory = (statuses: WorkflowStatus[], category: StatusCategory) =>
+  statuses.find(status => status.category === category);
+
+// New tasks start in the first "not started" status
+export const initialStatus = (workflow: Workflow) =>
+  firstInCategory(workflow.statuses, "not_started") ?? workflow.statuses[0];
+
+// The task's status in `workflow`. Tasks whose status is unknown there (moved
+// from another project, or the status was deleted) fall back by completion.
+export const getTaskStatus = (workflow: Workflow, task: Task): WorkflowStatus =>
+  workflow.statuses.find(status => status.id === task.status) ??
+  (task.completed ? firstInCategory(workflow.statuses, "done") : undefined) ??
+  initialStatus(workflow);
+
+export const canTransition = (workflow: Workflow, fromId: string, toId: string) =>
+  fromId === toId || !workflow.transitions[fromId] || workflow.transitions[fromId].includes(toId);
+
+export const allowedTargets = (workflow: Workflow, from: WorkflowStatus) =>
+  workflow.statuses.filter(status => canTransition(workflow, from.id, status.id));
+
+// Every workflow needs somewhere to start tasks and somewhere to complete them
+export const validateWorkflow = (workflow: Workflow): string | null => {
+  if (!firstInCategory(workflow.statuses, "not_started")) return 'Keep at least one "Not started" status.';
+  if (!firstInCategory(workflow.statuses, "done")) return 'Keep at least one "Done" status.';
+  return null;
+};
+
+// The status a task lands in when it's completed or reopened without picking
+// one: the first reachable status of the matching category
+const statusForCompletion = (workflow: Workflow, from: WorkflowStatus, completed: boolean) => {
+  const reachable = allowedTargets(workflow, from);
+  const categories: StatusCategory[] = completed ? ["done"] : ["not_started", "active"];
+  for (const category of categories) {
+    const status = firstInCategory(reachable, category);
+    if (status) return status;
+  }
+  return firstInCategory(workflow.statuses, completed ? "done" : "not_started");
+};
+
+export type StatusChangeResult = { changes: TaskChanges; error?: undefined } | { changes?: undefined; error: string };
+
+// Keeps `status` and `completed` consistent for a pending update. Changes may
+// set either one: a new status decides completion, and toggling completion
+// picks a status. Moves the workflow doesn't allow are rejected.
+export const resolveStatusChanges = (workflow: Workflow, task: Task, changes: TaskChanges): StatusChangeResult => {
+  const current = getTaskStatus(workflow, task);
+  let target = current;
+  if (changes.status !== undefined) {
+    target = workflow.statuses.find(status => status.id === changes.status);
+    if (!target) return { error: "That status no longer exists." };
+  } else if (changes.completed !== undefined && changes.completed !== (current.category === "done")) {
+    target = statusForCompletion(workflow, current, changes.completed);
+  }
+
+  if (!canTransition(workflow, current.id, target.id)) {
+    return { error: `Tasks in "${current.name}" can't move to "${target.name}".` };
+  }
+  const completed = target.category === "done";
+  // Completing or reopening by status ticks an auto-completing task's steps too
+  const steps = completed !== task.completed && changes.subtasks === undefined ? completionChanges(task, completed) : {};
+  return { changes: { ...changes, ...steps, status: target.id, completed } };
+};
+
+// The status to give a task moving into a project with `workflow`: the same
+// status if it exists there, otherwise the first one of the same category
+export const mapStatusToWorkflow = (task: Task, fromWorkflow: Workflow, toWorkflow: Workflow) => {
+  const current = getTaskStatus(fromWorkflow, task);
+  return (
+    toWorkflow.statuses.find(status => status.id === current.id) ??
+    firstInCategory(toWorkflow.statuses, current.category) ??
+    initialStatus(toWorkflow)
+  );
+};
@@ -0,0 +1,249 @@
+import { useMemo, useState } from "react";
+import { Navigate, useParams } from "react-router-dom";
+import { Workflow } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { toast } from "@/components/ui/sonner";
+import { BoardCard } from "@/components/BoardCard";
+import { BoardColumn } from "@/components/BoardColumn";
+import { ProjectViewTabs } from "@/components/ProjectViewTabs";
+import { TagFilter } from "@/components/TagFilter";
+import { WorkflowDialog } from "@/components/WorkflowDialog";
+import { useBoardConfig } from "@/hooks/useBoardConfig";
+import { useProjects } from "@/hooks/useProjects";
+import { useTaskActions } from "@/hooks/useTaskActions";
+import { useTasks } from "@/hooks/useTasks";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { groupByStatus } from "@/lib/board";
+import { DEFAULT_PROJECT_ID, projectBoardPath } from "@/lib/projects";
+import { neighbourOrderOperations, orderKeysForInsert, sortByOrder } from "@/lib/sorting";
+import { canTransition, getTaskStatus } from "@/lib/workflows";
+import type { Task } from "@/types/Task";
+
+interface BoardDrag {
+  task: Task;
+  // Target status id and index among that column's other cards
+  status: string;
+  index: number;
+  mode: "pointer" | "keyboard";
+}
+
+const Board = () => {
+  const { projectId } = useParams();
+  const { projects } = useProjects();
+  const project = projects.find(candidate => candidate.id === projectId);
+  const { tasks } = useTasks();
+  const { saveTaskChanges } = useTaskActions();
+  const { config, updateColumn } = useBoardConfig(projectId);
+  const { workflow } = useWorkflow(projectId);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [drag, setDrag] = useState<BoardDrag | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [workflowOpen, setWorkflowOpen] = useState(false);
+
+  const columns = useMemo(
+    () =>
+      groupByStatus(
+        workflow,
+        sortByOrder(tasks).filter(
+          task => task.projectId === projectId && tagFilter.every(tagId => task.tags?.includes(tagId))
+        )
+      ),
+    [workflow, tasks, projectId, tagFilter]
+  );
+
+  const statusName = (statusId: string) => workflow.statuses.find(status => status.id === statusId)?.name;
+  const currentStatusId = (task: Task) => getTaskStatus(workflow, task).id;
+  // Columns the workflow lets the task move into
+  const canDropIn = (task: Task, statusId: string) => canTransition(workflow, currentStatusId(task), statusId);
+
+  // Cards a dragged task can be dropped between
+  const otherCards = (statusId: string, task: Task) => columns[statusId].filter(candidate => candidate.id !== task.id);
+  const position = (statusId: string, index: number, task: Task) =>
+    `${statusName(statusId)}, position ${index + 1} of ${otherCards(statusId, task).length + 1}`;
+
+  const moveTask = (task: Task, statusId: string, index: number) => {
+    const target = otherCards(statusId, task);
+    let orders: Map<string, string>;
+    try {
+      orders = orderKeysForInsert(target, index, task);
+    } catch {
+      toast.error("Couldn't move the task", { description: "Its new position couldn't be saved." });
+      return;
+    }
+    if (statusId !== currentStatusId(task)) {
+      const limit = config[statusId]?.wipLimit;
+      if (limit !== undefined && target.length + 1 > limit) {
+        toast.warning(`${statusName(statusId)} is over its limit`, {
+          description: `It now holds ${target.length + 1} tasks; the limit is ${limit}.`,
+        });
+      }
+    }
+    saveTaskChanges(task, { order: orders.get(task.id), status: statusId }, neighbourOrderOperations(orders, task)).catch(() =>
+      toast.error("Couldn't move the task", { description: "Its new position couldn't be saved." })
+    );
+  };
+
+  const finish = (state: BoardDrag) => {
+    setDrag(null);
+    setAnnouncement(`${state.task.title} dropped in ${position(state.status, state.index, state.task)}.`);
+    if (state.status !== currentStatusId(state.task) || state.index !== columns[state.status].indexOf(state.task)) {
+      moveTask(state.task, state.status, state.index);
+    }
+  };
+
+  const cancel = (state: BoardDrag) => {
+    setDrag(null);
+    setAnnouncement(`Move cancelled. ${state.task.title} stays in ${statusName(currentStatusId(state.task))}.`);
+  };
+
+  const startDrag = (task: Task, mode: BoardDrag["mode"]) => {
+    const status = currentStatusId(task);
+    setDrag({ task, status, index: columns[status].indexOf(task), mode });
+  };
+
+  // Hit-tests the column under the pointer, then the card midpoints within it
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag?.mode !== "pointer") return;
+    const column = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>("[data-status]");
+    const status = column?.dataset.status;
+    if (!status || !canDropIn(drag.task, status)) return;
+    const index = Array.from(column.querySelectorAll<HTMLElement>("[data-task-id]")).filter(card => {
+      if (card.dataset.taskId === drag.task.id) return false;
+      const rect = card.getBoundingClientRect();
+      return rect.top + rect.height / 2 < e.clientY;
+    }).length;
+    if (status !== drag.status || index !== drag.index) {
+      setDrag({ ...drag, status, index });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (!drag) {
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        startDrag(task, "keyboard");
+        setAnnouncement(
+          `${task.title} lifted in ${statusName(currentStatusId(task))}. Use the arrow keys to move between and within columns, space to drop, escape to cancel.`
+        );
+      }
+      return;
+    }
+    if (drag.mode !== "keyboard") return;
+
+    // Arrow keys skip columns the task isn't allowed into
+    const targets = workflow.statuses.filter(status => canDropIn(drag.task, status.id));
+    const columnIndex = targets.findIndex(status => status.id === drag.status);
+    let next: BoardDrag | null = null;
+    switch (e.key) {
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const status = targets[columnIndex + (e.key === "ArrowLeft" ? -1 : 1)]?.id;
+        if (status) next = { ...drag, status, index: Math.min(drag.index, otherCards(status, drag.task).length) };
+        break;
+      }
+      case "ArrowUp":
+      case "ArrowDown": {
+        const index = drag.index + (e.key === "ArrowUp" ? -1 : 1);
+        if (index >= 0 && index <= otherCards(drag.status, drag.task).length) next = { ...drag, index };
+        break;
+      }
+      case " ":
+      case "Enter":
+        e.preventDefault();
+        finish(drag);
+        return;
+      case "Escape":
+      case "Tab":
+        e.preventDefault();
+        cancel(drag);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+    if (next) {
+      setDrag(next);
+      setAnnouncement(`${drag.task.title} moved to ${position(next.status, next.index, drag.task)}.`);
+    }
+  };
+
+  // Converts the drop index among the other cards into a slot in the rendered column
+  const dropIndexFor = (status: string) => {
+    if (!drag || drag.status !== status) return null;
+    const current = columns[status].indexOf(drag.task);
+    if (current === -1 || drag.index < current) return drag.index;
+    // Dropping right where the card already is isn't worth drawing
+    return drag.index === current ? null : drag.index + 1;
+  };
+
+  // Unknown or deleted projects fall back to the inbox
+  if (!project) {
+    return <Navigate to={projectBoardPath(DEFAULT_PROJECT_ID)} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b border-border bg-card">
+        <div className="px-4 py-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <SidebarTrigger />
+            <h1 className="text-2xl font-semibold">{project.name}</h1>
+            <SyncStatusIndicator />
+          </div>
+          <div className="flex items-center gap-2">
+            <TagFilter value={tagFilter} onChange={setTagFilter} />
+            <Button variant="outline" onClick={() => setWorkflowOpen(true)}>
+              <Workflow className="w-4 h-4 mr-2" />
+              Workflow
+            </Button>
+            <ProjectViewTabs projectId={project.id} />
+          </div>
+        </div>
+      </header>
+
+      <main
+        className="flex gap-4 overflow-x-auto p-4 items-start"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => drag?.mode === "pointer" && finish(drag)}
+        onPointerCancel={() => drag?.mode === "pointer" && cancel(drag)}
+      >
+        {workflow.statuses.map(status => (
+          <BoardColumn
+            key={status.id}
+            status={status}
+            tasks={columns[status.id]}
+            config={config[status.id] ?? {}}
+            onConfigChange={(changes) => updateColumn(status.id, changes)}
+            dropIndex={dropIndexFor(status.id)}
+            disallowed={drag !== null && !canDropIn(drag.task, status.id)}
+            renderCard={task => (
+              <BoardCard
+                task={task}
+                isDragging={drag?.task.id === task.id}
+                handleProps={{
+                  onPointerDown: (e) => {
+                    if (e.button !== 0 || drag) return;
+                    e.preventDefault();
+                    // Captured events still bubble to <main>, which tracks the drag
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    startDrag(task, "pointer");
+                  },
+                  onKeyDown: (e) => handleKeyDown(e, task),
+                }}
+              />
+            )}
+          />
+        ))}
+      </main>
+
+      <p className="sr-only" aria-live="assertive" role="status">
+        {announcement}
+      </p>
+      <WorkflowDialog projectId={project.id} open={workflowOpen} onOpenChange={setWorkflowOpen} />
+    </div>
+  );
+};
+
+export default Board;
@@ -0,0 +1,307 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Navigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarTaskChip } from "@/components/CalendarTaskChip";
+import { ProjectViewTabs } from "@/components/ProjectViewTabs";
+import { TagFilter } from "@/components/TagFilter";
+import { TaskCalendar } from "@/components/TaskCalendar";
+import { TaskForm } from "@/components/TaskForm";
+import { useProjects } from "@/hooks/useProjects";
+import { useTaskActions } from "@/hooks/useTaskActions";
+import { useTasks } from "@/hooks/useTasks";
+import { describeRange, groupByDueDay, shiftDay, stepAnchor, type CalendarView } from "@/lib/calendar";
+import { dueDay, dueInstant, fromDayKey, isOverdue, rescheduleDueDate, toDayKey } from "@/lib/dueDates";
+import { DEFAULT_PROJECT_ID, projectCalendarPath } from "@/lib/projects";
+import { sortByOrder } from "@/lib/sorting";
+import type { Task } from "@/types/Task";
+
+interface CalendarDrag {
+  task: Task;
+  // Day the task would move to, or null while the pointer isn't over one it can move to
+  day: string | null;
+  mode: "pointer" | "keyboard";
+}
+
+// Month cells list this many tasks before collapsing the rest into "+N more"
+const MONTH_CELL_LIMIT = 3;
+
+const formatDay = (day: string) => format(fromDayKey(day), "EEEE, MMMM d");
+
+const Calendar = () => {
+  const { projectId } = useParams();
+  const { projects } = useProjects();
+  const project = projects.find(candidate => candidate.id === projectId);
+  const { tasks } = useTasks();
+  const { saveTaskChanges, saveTaskEdit } = useTaskActions();
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [drag, setDrag] = useState<CalendarDrag | null>(null);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  // The task whose handle gets focus back once it shows up on the day it was dropped on
+  const refocus = useRef<{ id: string; day: string } | null>(null);
+  const now = new Date();
+  const today = toDayKey(now);
+
+  const projectTasks = useMemo(
+    () =>
+      sortByOrder(tasks).filter(
+        task => task.projectId === projectId && tagFilter.every(tagId => task.tags?.includes(tagId))
+      ),
+    [tasks, projectId, tagFilter]
+  );
+  const days = useMemo(() => groupByDueDay(projectTasks), [projectTasks]);
+  // Not memoised: tasks with a due time become overdue in the course of the day
+  const overdue = projectTasks
+    .filter(task => isOverdue(task, now))
+    .sort((a, b) => dueInstant(a).getTime() - dueInstant(b).getTime());
+
+  // A keyboard-dragged chip is re-rendered in each day it passes through, so
+  // give its handle focus back; after a drop, again once it has moved
+  useEffect(() => {
+    const target = drag?.mode === "keyboard" ? { id: drag.task.id, day: drag.day } : refocus.current;
+    if (!target) return;
+    handleRefs.current.get(target.id)?.focus();
+    const task = projectTasks.find(candidate => candidate.id === target.id);
+    if (!drag && (!task || dueDay(task) === target.day)) refocus.current = null;
+  }, [drag, projectTasks]);
+
+  // Tasks can disappear mid-drag (e.g. deleted in another tab)
+  useEffect(() => {
+    if (drag && !projectTasks.some(task => task.id === drag.task.id)) setDrag(null);
+  }, [drag, projectTasks]);
+
+  // Like the task form, rescheduling may not move a due date into the past
+  const canDropOn = (day: string) => day >= today;
+
+  const finish = (state: CalendarDrag) => {
+    setDrag(null);
+    if (!state.day || state.day === dueDay(state.task)) {
+      if (state.mode === "keyboard") refocus.current = { id: state.task.id, day: dueDay(state.task) };
+      setAnnouncement(`${state.task.title} was not rescheduled.`);
+      return;
+    }
+    if (state.mode === "keyboard") refocus.current = { id: state.task.id, day: state.day };
+    setAnnouncement(`${state.task.title} rescheduled to ${formatDay(state.day)}.`);
+    saveTaskChanges(state.task, { dueDate: rescheduleDueDate(state.task, state.day) }).catch(error => {
+      refocus.current = null;
+      console.error("Failed to reschedule task:", error);
+    });
+  };
+
+  const cancel = (state: CalendarDrag) => {
+    if (state.mode === "keyboard") refocus.current = { id: state.task.id, day: dueDay(state.task) };
+    setDrag(null);
+    setAnnouncement(`Reschedule cancelled. ${state.task.title} stays due ${formatDay(dueDay(state.task))}.`);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag?.mode !== "pointer") return;
+    const cell = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>("[data-date]");
+    const day = cell && canDropOn(cell.dataset.date) ? cell.dataset.date : null;
+    if (day !== drag.day) {
+      setDrag({ ...drag, day });
+    }
+  };
+
+  // Arrow keys move a day at a time, up and down a week; the calendar follows along
+  const handleKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (!drag) {
+      if (e.key === " " || e.key === "Enter") {
+        e.preventDefault();
+        // Overdue tasks start from today, the earliest day they can move to
+        const day = dueDay(task) < today ? today : dueDay(task);
+        setDrag({ task, day, mode: "keyboard" });
+        setAnchor(fromDayKey(day));
+        setAnnouncement(
+          `${task.title} lifted on ${formatDay(day)}. Use the arrow keys to pick a day, space to drop, escape to cancel.`
+        );
+      }
+      return;
+    }
+    if (drag.mode !== "keyboard") return;
+
+    const offsets: Record<string, number> = { ArrowLeft: -1, ArrowRight: 1, ArrowUp: -7, ArrowDown: 7 };
+    if (e.key in offsets) {
+      e.preventDefault();
+      const day = shiftDay(drag.day, offsets[e.key]);
+      if (!canDropOn(day)) return;
+      setDrag({ ...drag, day });
+      setAnchor(fromDayKey(day));
+      setAnnouncement(formatDay(day));
+    } else if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      finish(drag);
+    } else if (e.key === "Escape" || e.key === "Tab") {
+      e.preventDefault();
+      cancel(drag);
+    }
+  };
+
+  const handleSaveTask = (editedTask: Task) => {
+    saveTaskEdit(editingTask, editedTask).catch(error => console.error("Failed to save task:", error));
+    setEditingTask(null);
+  };
+
+  const renderChip = (task: Task, detail?: string) => (
+    <CalendarTaskChip
+      key={task.id}
+      task={task}
+      isDragging={drag?.task.id === task.id}
+      overdue={isOverdue(task, now)}
+      detail={detail}
+      onOpen={setEditingTask}
+      handleRef={element => {
+        if (element) handleRefs.current.set(task.id, element);
+        // An overdue task shows twice; keep whichever chip is still mounted
+        else if (!handleRefs.current.get(task.id)?.isConnected) handleRefs.current.delete(task.id);
+      }}
+      handleProps={{
+        onPointerDown: (e) => {
+          if (e.button !== 0 || drag) return;
+          e.preventDefault();
+          // Captured events still bubble to <main>, which tracks the drag
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDrag({ task, day: null, mode: "pointer" });
+        },
+        onKeyDown: (e) => handleKeyDown(e, task),
+      }}
+    />
+  );
+
+  // A task dragged with the keyboard is shown on the day it would move to, so
+  // it stays mounted (and focused) wherever the calendar scrolls
+  const keyboardTask = drag?.mode === "keyboard" ? drag.task : null;
+
+  const renderDay = (day: string) => {
+    const dayTasks = (days.get(day) ?? []).filter(task => task.id !== keyboardTask?.id);
+    const visible = view === "month" ? dayTasks.slice(0, MONTH_CELL_LIMIT) : dayTasks;
+    const hidden = dayTasks.length - visible.length;
+    return (
+      <div className="flex min-w-0 flex-col gap-1">
+        {visible.map(task => renderChip(task))}
+        {keyboardTask && drag.day === day && renderChip(keyboardTask)}
+        {hidden > 0 && (
+          <button
+            type="button"
+            className="rounded-sm px-1 text-left text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => {
+              setView("week");
+              setAnchor(fromDayKey(day));
+            }}
+          >
+            +{hidden} more
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Unknown or deleted projects fall back to the inbox
+  if (!project) {
+    return <Navigate to={projectCalendarPath(DEFAULT_PROJECT_ID)} replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b border-border bg-card">
+        <div className="px-4 py-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <SidebarTrigger />
+            <h1 className="text-2xl font-semibold">{project.name}</h1>
+            <SyncStatusIndicator />
+          </div>
+          <div className="flex items-center gap-2">
+            <TagFilter value={tagFilter} onChange={setTagFilter} />
+            <ProjectViewTabs projectId={project.id} />
+          </div>
+        </div>
+      </header>
+
+      <main
+        className="flex flex-col-reverse gap-4 p-4 lg:flex-row lg:items-start"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => drag?.mode === "pointer" && finish(drag)}
+        onPointerCancel={() => drag?.mode === "pointer" && cancel(drag)}
+      >
+        <aside className="w-full space-y-2 rounded-lg border bg-muted/40 p-3 lg:w-64 lg:shrink-0" aria-label="Overdue">
+          <h2 className="flex items-center justify-between text-sm font-semibold">
+            Overdue
+            <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-normal text-muted-foreground">
+              {overdue.length}
+            </span>
+          </h2>
+          {overdue.length === 0 ? (
+            <p className="py-4 text-center text-xs text-muted-foreground">Nothing overdue</p>
+          ) : (
+            <>
+              <p className="text-xs text-muted-foreground">Drag a task onto a day to reschedule it.</p>
+              <div className="flex flex-col gap-1">
+                {overdue
+                  .filter(task => task.id !== keyboardTask?.id)
+                  .map(task => renderChip(task, `Due ${format(fromDayKey(dueDay(task)), "MMM d")}`))}
+              </div>
+            </>
+          )}
+        </aside>
+
+        <section className="min-w-0 flex-1 space-y-3" aria-label="Calendar">
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setAnchor(stepAnchor(anchor, view, -1))} aria-label={`Previous ${view}`}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" onClick={() => setAnchor(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setAnchor(stepAnchor(anchor, view, 1))} aria-label={`Next ${view}`}>
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+            <h2 className="flex-1 text-lg font-semibold" aria-live="polite">
+              {describeRange(anchor, view)}
+            </h2>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={view}
+              onValueChange={(value: CalendarView) => value && setView(value)}
+              aria-label="Calendar view"
+            >
+              <ToggleGroupItem value="month">Month</ToggleGroupItem>
+              <ToggleGroupItem value="week">Week</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          <TaskCalendar view={view} anchor={anchor} today={today} dropDay={drag?.day ?? null} renderDay={renderDay} />
+        </section>
+      </main>
+
+      <p className="sr-only" aria-live="assertive" role="status">
+        {announcement}
+      </p>
+
+      <Dialog open={editingTask !== null} onOpenChange={(open) => !open && setEditingTask(null)}>
+        <DialogContent className="max-w-2xl border-none bg-transparent p-0 shadow-none">
+          <DialogTitle className="sr-only">Edit task</DialogTitle>
+          {editingTask && (
+            <TaskForm
+              key={editingTask.id}
+              projectId={editingTask.projectId}
+              onSave={handleSaveTask}
+              onCancel={() => setEditingTask(null)}
+              initialTask={editingTask}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Calendar;
@@ -1,19 +1,44 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Clock, CheckCircle2, Plus, FileText, AlertTriangle, Edit2, Trash2, Calendar, Circle, Search } from "lucide-react";
+import { Clock, CheckCircle2, Plus, FileText, AlertTriangle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { cva, type VariantProps } from "class-variance-authority";
-import { v4 as uuidv4 } from 'uuid';
-
-// cn helper function (Shadcn-UI)
-const cn = (...classes) => {
-  return classes.filter(Boolean).join(' ');
-};
+import { Navigate, useParams, useSearchParams } from "react-router-dom";
+import type { Subtask, Task } from "@/types/Task";
+import { TaskCard } from "@/components/TaskCard";
+import { BulkActionBar } from "@/components/BulkActionBar";
+import { TaskForm } from "@/components/TaskForm";
+import { TagFilter } from "@/components/TagFilter";
+import { TaskSearchInput } from "@/components/TaskSearchInput";
+import { SortMenu } from "@/components/SortMenu";
+import { CsvExportMenu } from "@/components/CsvExportMenu";
+import { PasteTasksDialog } from "@/components/PasteTasksDialog";
+import { SortableList } from "@/components/SortableList";
+import { ProjectViewTabs } from "@/components/ProjectViewTabs";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { toast } from "@/components/ui/sonner";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { useProjects } from "@/hooks/useProjects";
+import { DEFAULT_PROJECT_ID, projectPath } from "@/lib/projects";
+import { completionChanges, withSubtasks } from "@/lib/subtasks";
+import { useTasks } from "@/hooks/useTasks";
+import { useTaskActions } from "@/hooks/useTaskActions";
+import { useTaskSelection } from "@/hooks/useTaskSelection";
+import { useWorkflow } from "@/hooks/useWorkflow";
+import { initialStatus } from "@/lib/workflows";
+import { useTags } from "@/hooks/useTags";
+import { useTaskSort } from "@/hooks/useTaskSort";
+import {
+  isManualOrder,
+  neighbourOrderOperations,
+  orderKeyAtStart,
+  orderKeysForMove,
+  sortByOrder,
+  sortTasks,
+} from "@/lib/sorting";
+import { parseQuery } from "@/lib/search/queryParser";
+import { collectTextTerms, createQueryContext, matchesQuery } from "@/lib/search/queryEvaluator";
+import { createSearchIndex } from "@/lib/search/searchIndex";
 
 // Custom hook to handle the countdown timer logic
 const useTimer = (initialTime: number) => {
@@ -64,261 +89,69 @@ const useTimer = (initialTime: number) => {
   return { timeRemaining, isTimeUp, formatTime, startTimer, resetTimer };
 };
 
-// Define proper TypeScript interfaces for Task and Priority
-type Priority = 'high' | 'medium' | 'low';
-
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  priority: Priority;
-  completed: boolean;
-  dueDate?: string;
-  createdAt: string;
-}
-
-// Badge Component (Updated with new variants)
-const badgeVariants = cva(
-  "inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
-  {
-    variants: {
-      variant: {
-        default: "border-transparent bg-primary text-primary-foreground hover:bg-primary/80",
-        secondary: "border-transparent bg-secondary text-secondary-foreground hover:bg-secondary/80",
-        destructive: "border-transparent bg-destructive text-destructive-foreground hover:bg-destructive/80",
-        outline: "text-foreground",
-        // Custom variants for priority colors
-        success: "bg-success/20 text-success border-success",
-        warning: "bg-warning/20 text-warning border-warning",
-      },
-    },
-    defaultVariants: {
-      variant: "default",
-    },
-  }
-);
-
-interface BadgeProps extends React.HTMLAttributes<HTMLDivElement>, VariantProps<typeof badgeVariants> {}
-
-const Badge = ({ className, variant, ...props }: BadgeProps) => {
-  return <div className={cn(badgeVariants({ variant }), className)} {...props} />;
-};
-Badge.displayName = "Badge";
-
-// A helper object to map priorities to the new badge variants
-const priorityVariantMap: Record<Priority, 'destructive' | 'warning' | 'success'> = {
-  high: "destructive",
-  medium: "warning",
-  low: "success",
-};
-
-// TaskCard Component (Refactored to use the variant prop)
-interface TaskCardProps {
-  task: Task;
-  onEdit: (task: Task) => void;
-  onDelete: (task: Task) => void;
-  onToggleComplete: (task: Task) => void;
-}
-
-const TaskCard = ({ task, onEdit, onDelete, onToggleComplete }: TaskCardProps) => {
-  return (
-    <Card className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 p-4 transition-shadow hover:shadow-lg">
-      <div className="flex-1 min-w-0 flex flex-col gap-2">
-        <div className="flex items-center gap-2">
-          <button
-            aria-label={task.completed ? 'Mark as incomplete' : 'Mark as complete'}
-            onClick={() => onToggleComplete(task)}
-            className="focus:outline-none"
-          >
-            {task.completed ? (
-              <CheckCircle2 className="text-success w-5 h-5" />
-            ) : (
-              <Circle className="text-muted-foreground w-5 h-5" />
-            )}
-          </button>
-          <h3 className={`font-semibold text-lg truncate ${task.completed ? 'line-through text-muted-foreground' : ''}`}>{task.title}</h3>
-          <Badge variant={priorityVariantMap[task.priority]} className="ml-2 border">
-            {task.priority.charAt(0).toUpperCase() + task.priority.slice(1)}
-          </Badge>
-        </div>
-        {task.description && (
-          <p className={`text-sm text-muted-foreground ${task.completed ? 'line-through' : ''}`}>{task.description}</p>
-        )}
-        <div className="flex items-center gap-2 text-xs text-muted-foreground mt-1">
-          <Calendar className="w-4 h-4" />
-          <span>Due: {task.dueDate ? new Date(task.dueDate).toLocaleDateString() : 'No due date'}</span>
-        </div>
-      </div>
-      <div className="flex gap-2 mt-2 sm:mt-0">
-        <Button size="sm" variant="outline" onClick={() => onEdit(task)} aria-label="Edit task">
-          <Edit2 className="w-4 h-4" />
-        </Button>
-        <Button size="sm" variant="destructive" onClick={() => onDelete(task)} aria-label="Delete task">
-          <Trash2 className="w-4 h-4" />
-        </Button>
-      </div>
-    </Card>
-  );
-};
-
-// TaskForm Component
-interface TaskFormProps {
-  onSave: (task: Task) => void;
-  onCancel: () => void;
-  initialTask?: Task | null;
-}
-
-const TaskForm = ({ onSave, onCancel, initialTask }: TaskFormProps) => {
-  const [title, setTitle] = useState(initialTask?.title || "");
-  const [description, setDescription] = useState(initialTask?.description || "");
-  const [priority, setPriority] = useState<Priority>(initialTask?.priority || "medium");
-  const [dueDate, setDueDate] = useState(initialTask?.dueDate ? initialTask.dueDate.substring(0, 10) : "");
-  const [errors, setErrors] = useState<Record<string, string>>({});
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    const newErrors: Record<string, string> = {};
-    if (!title.trim()) {
-      newErrors.title = "Title is required.";
-    }
-    if (Object.keys(newErrors).length > 0) {
-      setErrors(newErrors);
-      return;
-    }
-
-    const newTask: Task = {
-      id: initialTask?.id || uuidv4(),
-      title,
-      description,
-      priority,
-      completed: initialTask?.completed || false,
-      dueDate: dueDate || undefined,
-      createdAt: initialTask?.createdAt || new Date().toISOString(),
-    };
-    onSave(newTask);
-    onCancel();
-  };
-
-  return (
-    <Card className="animate-in fade-in slide-in-from-top-4">
-      <CardHeader>
-        <CardTitle>{initialTask ? "Edit Task" : "Add New Task"}</CardTitle>
-        <CardDescription>
-          {initialTask ? "Update the details for this task." : "Create a new task to manage your work."}
-        </CardDescription>
-      </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="title">Title</Label>
-            <Input
-              id="title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="e.g., Complete project report"
-              className={errors.title ? "border-destructive" : ""}
-            />
-            {errors.title && <p className="text-destructive text-sm mt-1">{errors.title}</p>}
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="description">Description</Label>
-            <Textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add more details about the task..."
-            />
-          </div>
-          <div className="space-y-2">
-            <Label>Priority</Label>
-            <RadioGroup
-              defaultValue={priority}
-              onValueChange={(value: Priority) => setPriority(value)}
-              className="flex items-center gap-4"
-            >
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="low" id="low-priority" />
-                <Label htmlFor="low-priority">Low</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="medium" id="medium-priority" />
-                <Label htmlFor="medium-priority">Medium</Label>
-              </div>
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="high" id="high-priority" />
-                <Label htmlFor="high-priority">High</Label>
-              </div>
-            </RadioGroup>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="dueDate">Due Date</Label>
-            <Input
-              id="dueDate"
-              type="date"
-              value={dueDate}
-              onChange={(e) => setDueDate(e.target.value)}
-            />
-          </div>
-          <div className="flex justify-end gap-2">
-            <Button type="button" variant="outline" onClick={onCancel}>
-              Cancel
-            </Button>
-            <Button type="submit" className="bg-primary hover:bg-primary/90">
-              {initialTask ? "Save Changes" : "Create Task"}
-            </Button>
-          </div>
-        </form>
-      </CardContent>
-    </Card>
-  );
-};
-
-
 const Index = () => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
+  const { projectId } = useParams();
+  const { projects } = useProjects();
+  const project = projects.find(candidate => candidate.id === projectId);
+  const { tasks, repository } = useTasks();
+  const { saveTaskChanges, saveTaskEdit, moveTaskToProject, deleteTask } = useTaskActions();
+  const { workflow } = useWorkflow(projectId);
   const [showForm, setShowForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [testStarted, setTestStarted] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const { tags } = useTags();
+  const { sortKeys } = useTaskSort(projectId);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   
   const { timeRemaining, isTimeUp, formatTime, startTimer, resetTimer } = useTimer(3600); // 60 minutes
   
-  // Load tasks from localStorage on initial render
-  useEffect(() => {
-    try {
-      const storedTasks = localStorage.getItem('tasks');
-      if (storedTasks) {
-        const loadedTasks: Task[] = JSON.parse(storedTasks);
-        setTasks(loadedTasks);
-      }
-    } catch (error) {
-      console.error("Failed to load tasks from localStorage:", error);
+  // Rebuilt only when tasks or tags change; per-term lookups are cached inside
+  const searchIndex = useMemo(() => createSearchIndex(tasks, tags), [tasks, tags]);
+
+  // Filter by project, tags and query, rank by relevance when the query has
+  // free text, then apply the project's sort keys (relevance breaks their ties).
+  // An invalid query is ignored so the list doesn't flicker while typing.
+  const { filteredTasks, matches } = useMemo(() => {
+    const query = parsedQuery.success ? parsedQuery.query : null;
+    const context = createQueryContext(tags, searchIndex);
+    const matches = searchIndex.search(collectTextTerms(query));
+    const filteredTasks = sortByOrder(tasks).filter(task =>
+      task.projectId === projectId &&
+      tagFilter.every(tagId => task.tags?.includes(tagId)) &&
+      matchesQuery(task, query, context)
+    );
+    if (matches.size > 0) {
+      filteredTasks.sort((a, b) => (matches.get(b.id)?.score ?? 0) - (matches.get(a.id)?.score ?? 0));
     }
-  }, []);
+    return { filteredTasks: sortTasks(filteredTasks, sortKeys), matches };
+  }, [tasks, tags, searchIndex, projectId, parsedQuery, tagFilter, sortKeys]);
 
-  // Save tasks to localStorage whenever the tasks state changes
-  useEffect(() => {
-    try {
-      localStorage.setItem('tasks', JSON.stringify(tasks));
-    } catch (error) {
-      console.error("Failed to save tasks to localStorage:", error);
-    }
-  }, [tasks]);
+  const selection = useTaskSelection(filteredTasks);
+  const { clear: clearSelection } = selection;
 
-  // Filter tasks based on search query whenever tasks or query changes
+  // A selection doesn't carry over to another project
   useEffect(() => {
-    if (searchQuery.trim() === "") {
-      setFilteredTasks(tasks);
-    } else {
-      const lowerCaseQuery = searchQuery.toLowerCase();
-      const newFilteredTasks = tasks.filter(task => 
-        task.title.toLowerCase().includes(lowerCaseQuery) ||
-        (task.description && task.description.toLowerCase().includes(lowerCaseQuery))
-      );
-      setFilteredTasks(newFilteredTasks);
-    }
-  }, [tasks, searchQuery]);
+    clearSelection();
+  }, [projectId, clearSelection]);
+
+  // The query lives in ?q= so searches can be shared and bookmarked
+  const handleSearchChange = (value: string) => {
+    setSearchParams(
+      params => {
+        const next = new URLSearchParams(params);
+        if (value) {
+          next.set("q", value);
+        } else {
+          next.delete("q");
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
 
 
   const handleStartTest = () => {
@@ -329,12 +162,26 @@ const Index = () => {
   const handleResetTest = () => {
     setTestStarted(false);
     resetTimer();
-    setTasks([]);
+    repository.clear().catch(error => console.error("Failed to clear tasks:", error));
     setShowForm(false);
   };
 
+  // Dragging writes the moved task, with a key between its new neighbours,
+  // and only rekeys them when they share a key
+  const handleReorderTask = (task: Task, fromIndex: number, toIndex: number) => {
+    Promise.resolve()
+      .then(() => {
+        const orders = orderKeysForMove(filteredTasks, fromIndex, toIndex);
+        return saveTaskChanges(task, { order: orders.get(task.id) }, neighbourOrderOperations(orders, task));
+      })
+      .catch(() => toast.error("Couldn't move the task", { description: "Its new position couldn't be saved." }));
+  };
+
+  // New tasks go to the top of the manual order, in the workflow's first status
   const handleAddTask = (newTask: Task) => {
-    setTasks([newTask, ...tasks]);
+    repository
+      .create({ ...newTask, status: initialStatus(workflow).id, completed: false, order: orderKeyAtStart(tasks) })
+      .catch(error => console.error("Failed to add task:", error));
     setShowForm(false);
   };
 
@@ -344,38 +191,57 @@ const Index = () => {
   };
 
   const handleSaveEditedTask = (editedTask: Task) => {
-    setTasks(tasks.map(task => task.id === editedTask.id ? editedTask : task));
+    saveTaskEdit(editingTask, editedTask).catch(error => console.error("Failed to save task:", error));
     setEditingTask(null);
     setShowForm(false);
   };
 
   const handleDeleteTask = (taskToDelete: Task) => {
-    setTasks(tasks.filter(task => task.id !== taskToDelete.id));
+    deleteTask(taskToDelete).catch(error => console.error("Failed to delete task:", error));
   };
 
   const handleToggleComplete = (taskToToggle: Task) => {
-    setTasks(
-      tasks.map(task => 
-        task.id === taskToToggle.id ? { ...task, completed: !task.completed } : task
-      )
+    saveTaskChanges(taskToToggle, completionChanges(taskToToggle, !taskToToggle.completed)).catch(error =>
+      console.error("Failed to update task:", error)
     );
   };
 
+  const handleMoveTask = (task: Task, targetProjectId: string) => {
+    moveTaskToProject(task, targetProjectId).catch(error => console.error("Failed to move task:", error));
+  };
+
+  const handleStatusChange = (task: Task, statusId: string) => {
+    saveTaskChanges(task, { status: statusId }).catch(error => console.error("Failed to update status:", error));
+  };
+
+  const handleSubtasksChange = (task: Task, subtasks: Subtask[]) => {
+    saveTaskChanges(task, withSubtasks(task, subtasks)).catch(error => console.error("Failed to update subtasks:", error));
+  };
+
+  // Unknown or deleted projects fall back to the inbox
+  if (!project) {
+    return <Navigate to={projectPath(DEFAULT_PROJECT_ID)} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-background text-foreground">
       {/* Header */}
       <header className="border-b border-border bg-card">
         <div className="container mx-auto px-4 py-6">
           <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-destructive bg-clip-text text-transparent">
-                60-Minute Frontend Test
-              </h1>
-              <p className="text-muted-foreground mt-2">
-                Build a Task Management Application
-              </p>
+            <div className="flex items-start gap-3">
+              <SidebarTrigger className="mt-2" />
+              <div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-destructive bg-clip-text text-transparent">
+                  60-Minute Frontend Test
+                </h1>
+                <p className="text-muted-foreground mt-2">
+                  Build a Task Management Application
+                </p>
+              </div>
             </div>
             <div className="flex items-center gap-4">
+              <SyncStatusIndicator />
               {!testStarted ? (
                 <Button onClick={handleStartTest} size="lg" className="bg-primary hover:bg-primary/90">
                   Start Test
@@ -493,22 +359,27 @@ const Index = () => {
                 {/* Action Bar */}
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                   <div className="flex-1">
-                    <h2 className="text-2xl font-semibold">My Tasks</h2>
+                    <h2 className="text-2xl font-semibold">{project.name}</h2>
                     <p className="text-muted-foreground">
                       {filteredTasks.length === 0 ? "No tasks found" : `${filteredTasks.length} tasks`}
+                      {filteredTasks.length > 0 && selection.selectedTasks.length === 0 && (
+                        <Button variant="link" size="sm" className="h-auto px-2" onClick={selection.selectAll}>
+                          Select all
+                        </Button>
+                      )}
                     </p>
                   </div>
                   <div className="flex items-center w-full sm:w-auto gap-2">
-                    <div className="relative w-full sm:max-w-xs">
-                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        type="text"
-                        placeholder="Search tasks..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="pl-9"
-                      />
-                    </div>
+                    <TaskSearchInput
+                      value={searchQuery}
+                      onChange={handleSearchChange}
+                      error={parsedQuery.success === false ? parsedQuery.error : undefined}
+                    />
+                    <TagFilter value={tagFilter} onChange={setTagFilter} />
+                    <SortMenu projectId={project.id} />
+                    <CsvExportMenu tasks={filteredTasks} />
+                    <PasteTasksDialog projectId={project.id} />
+                    <ProjectViewTabs projectId={project.id} />
                     <Button 
                       onClick={() => {
                         setEditingTask(null);
@@ -526,12 +397,23 @@ const Index = () => {
                 {/* TaskForm component */}
                 {showForm && (
                   <TaskForm
+                    key={editingTask?.id ?? "new"}
+                    projectId={project.id}
                     onSave={editingTask ? handleSaveEditedTask : handleAddTask}
                     onCancel={() => setShowForm(false)}
                     initialTask={editingTask}
                   />
                 )}
 
+                {selection.selectedTasks.length > 0 && (
+                  <BulkActionBar
+                    tasks={selection.selectedTasks}
+                    matchingCount={filteredTasks.length}
+                    onSelectAll={selection.selectAll}
+                    onClear={selection.clear}
+                  />
+                )}
+
                 {/* Task List Area */}
                 <div className="space-y-4">
                   {filteredTasks.length === 0 ? (
@@ -540,22 +422,38 @@ const Index = () => {
                         <CheckCircle2 className="w-12 h-12 text-muted-foreground mb-4" />
                         <h3 className="text-lg font-medium mb-2">No tasks found</h3>
                         <p className="text-muted-foreground text-center max-w-sm">
-                          {searchQuery.trim() === "" ? "Get started by creating your first task. Click the 'Add Task' button above." : `No tasks matching "${searchQuery}"`}
+                          {searchQuery.trim() === "" && tagFilter.length === 0 ? "Get started by creating your first task. Click the 'Add Task' button above." : searchQuery.trim() === "" ? "No tasks carry all of the selected tags." : `No tasks matching "${searchQuery}"`}
                         </p>
                       </CardContent>
                     </Card>
                   ) : (
-                    <div className="grid gap-4">
-                      {filteredTasks.map(task => (
+                    <SortableList
+                      items={filteredTasks}
+                      getId={task => task.id}
+                      getLabel={task => task.title}
+                      onReorder={handleReorderTask}
+                      disabledReason={
+                        !isManualOrder(sortKeys)
+                          ? "Switch to manual order to drag tasks"
+                          : matches.size > 0
+                            ? "Search results are ranked by relevance; clear the search to drag tasks"
+                            : undefined
+                      }
+                      renderItem={task => (
                         <TaskCard
-                          key={task.id}
                           task={task}
+                          match={matches.get(task.id)}
+                          selected={selection.isSelected(task)}
+                          onSelect={selection.toggle}
                           onEdit={handleEditTask}
                           onDelete={handleDeleteTask}
                           onToggleComplete={handleToggleComplete}
+                          onSubtasksChange={handleSubtasksChange}
+                          onMove={handleMoveTask}
+                          onStatusChange={handleStatusChange}
                         />
-                      ))}
-                    </div>
+                      )}
+                    />
                   )}
                 </div>
               </div>
@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ArchiveRestore, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useProjects } from "@/hooks/useProjects";
+import { useTrash } from "@/hooks/useTrash";
+import { RETENTION_OPTIONS, describePurge } from "@/lib/trash";
+import type { Task } from "@/types/Task";
+
+const Trash = () => {
+  const { trashedTasks, retentionDays, setRetentionDays, restoreTask, purgeTasks } = useTrash();
+  const { projects } = useProjects();
+  // Tasks awaiting confirmation before they're deleted for good
+  const [purging, setPurging] = useState<Task[] | null>(null);
+
+  const recentFirst = [...trashedTasks].sort((a, b) => Date.parse(b.deletedAt) - Date.parse(a.deletedAt));
+  const projectName = (projectId: string) => projects.find(project => project.id === projectId)?.name ?? "Inbox";
+
+  const handleRestore = (task: Task) => {
+    restoreTask(task).catch(error => console.error("Failed to restore task:", error));
+  };
+
+  const handlePurge = () => {
+    purgeTasks(purging).catch(error => console.error("Failed to delete tasks:", error));
+    setPurging(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="border-b border-border bg-card">
+        <div className="px-4 py-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <SidebarTrigger />
+            <h1 className="text-2xl font-semibold">Trash</h1>
+            <SyncStatusIndicator />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="trash-retention" className="text-sm text-muted-foreground">
+              Delete permanently
+            </Label>
+            <Select
+              value={String(retentionDays)}
+              onValueChange={(value) => setRetentionDays(value === "null" ? null : Number(value))}
+            >
+              <SelectTrigger id="trash-retention" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map(option => (
+                  <SelectItem key={String(option.value)} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="destructive" disabled={trashedTasks.length === 0} onClick={() => setPurging(trashedTasks)}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Empty trash
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl space-y-3">
+        {recentFirst.length === 0 ? (
+          <p className="py-16 text-center text-muted-foreground">The trash is empty.</p>
+        ) : (
+          recentFirst.map(task => (
+            <Card key={task.id} className="flex items-center gap-4 p-4">
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="font-medium break-words">{task.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {projectName(task.projectId)} · Deleted {formatDistanceToNow(new Date(task.deletedAt), { addSuffix: true })}{" "}
+                  · {describePurge(task, retentionDays)}
+                </p>
+              </div>
+              <Button size="sm" variant="outline" onClick={() => handleRestore(task)}>
+                <ArchiveRestore className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => setPurging([task])}
+                aria-label={`Delete ${task.title} permanently`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </Card>
+          ))
+        )}
+      </main>
+
+      <AlertDialog open={purging !== null} onOpenChange={(open) => !open && setPurging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purging?.length === 1
+                ? `Delete "${purging[0].title}" permanently?`
+                : `Delete ${purging?.length} tasks permanently?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>This can't be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const WIP_LIMIT_MAX = 99;
+
+export const boardColumnConfigSchema = z.object({
+  // Soft limit: the column is flagged when it holds more tasks than this
+  wipLimit: z.number().int().min(1).max(WIP_LIMIT_MAX).optional(),
+  collapsed: z.boolean().optional(),
+});
+
+export type BoardColumnConfig = z.infer<typeof boardColumnConfigSchema>;
+
+// Column settings of one project's board, keyed by workflow status id
+export const boardConfigSchema = z.record(boardColumnConfigSchema);
+
+export type BoardConfig = z.infer<typeof boardConfigSchema>;
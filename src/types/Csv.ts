@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Task fields a CSV export can include
+export const csvColumnSchema = z.enum([
+  "title",
+  "description",
+  "priority",
+  "status",
+  "completed",
+  "dueDate",
+  "dueTime",
+  "timeZone",
+  "tags",
+  "project",
+  "createdAt",
+]);
+
+export type CsvColumn = z.infer<typeof csvColumnSchema>;
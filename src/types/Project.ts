@@ -0,0 +1,15 @@
+import { z } from "zod";
+
+export const PROJECT_NAME_MAX_LENGTH = 50;
+
+export const projectSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Project name is required.")
+    .max(PROJECT_NAME_MAX_LENGTH, `Project name must be ${PROJECT_NAME_MAX_LENGTH} characters or fewer.`),
+  createdAt: z.string().datetime({ offset: true }),
+});
+
+export type Project = z.infer<typeof projectSchema>;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const SORT_PRESET_NAME_MAX_LENGTH = 30;
+
+export const sortFieldSchema = z.enum(["priority", "dueDate", "createdAt", "title", "completed", "manual"]);
+
+export type SortField = z.infer<typeof sortFieldSchema>;
+
+export const sortKeySchema = z.object({
+  field: sortFieldSchema,
+  direction: z.enum(["asc", "desc"]),
+});
+
+export type SortKey = z.infer<typeof sortKeySchema>;
+
+export const sortPresetSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Preset name is required.")
+    .max(SORT_PRESET_NAME_MAX_LENGTH, `Preset name must be ${SORT_PRESET_NAME_MAX_LENGTH} characters or fewer.`),
+  keys: z.array(sortKeySchema),
+});
+
+export type SortPreset = z.infer<typeof sortPresetSchema>;
+
+// Sorting state of one project: the keys in effect plus its saved presets
+export const projectSortSchema = z.object({
+  keys: z.array(sortKeySchema),
+  presets: z.array(sortPresetSchema),
+});
+
+export type ProjectSort = z.infer<typeof projectSortSchema>;
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { taskSchema } from "./Task";
+
+// A change on its way to the sync server. Tasks are sent whole, so sending
+// the same entry twice does no harm.
+export const syncOperationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("put"),
+    task: taskSchema,
+    // The server's version the change was made against; null for new tasks.
+    // Lets a push merge with edits other devices made in the meantime.
+    base: taskSchema.nullable().optional(),
+  }),
+  z.object({ type: z.literal("delete"), id: z.string().min(1) }),
+]);
+
+export type SyncOperation = z.infer<typeof syncOperationSchema>;
+
+export const outboxEntrySchema = z.object({
+  id: z.string().min(1),
+  operation: syncOperationSchema,
+  queuedAt: z.string().datetime({ offset: true }),
+});
+
+export type OutboxEntry = z.infer<typeof outboxEntrySchema>;
+
+export const syncMetaSchema = z.object({
+  // Null until the first pull; local tasks the server doesn't know are then
+  // uploaded instead of being deleted
+  lastSyncedAt: z.string().datetime({ offset: true }).nullable(),
+});
+
+export type SyncMeta = z.infer<typeof syncMetaSchema>;
+
+// Fields both this device and another one changed since they last synced,
+// with each side's values. `fields` is a group that merges as a unit, such
+// as a status and the completion flag it implies.
+export const fieldConflictSchema = z.object({
+  fields: z.array(z.string().min(1)).min(1),
+  local: z.record(z.unknown()),
+  remote: z.record(z.unknown()),
+  localChangedAt: z.string().datetime({ offset: true }).nullable(),
+  remoteChangedAt: z.string().datetime({ offset: true }).nullable(),
+  // Which version the task was given until someone picks one
+  applied: z.enum(["local", "remote"]),
+});
+
+export type FieldConflict = z.infer<typeof fieldConflictSchema>;
+
+export const syncConflictSchema = z.object({
+  id: z.string().min(1),
+  taskId: z.string().min(1),
+  title: z.string(),
+  detectedAt: z.string().datetime({ offset: true }),
+  conflicts: z.array(fieldConflictSchema).min(1),
+});
+
+export type SyncConflict = z.infer<typeof syncConflictSchema>;
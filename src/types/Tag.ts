@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const TAG_NAME_MAX_LENGTH = 30;
+
+export const tagSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Tag name is required.")
+    .max(TAG_NAME_MAX_LENGTH, `Tag name must be ${TAG_NAME_MAX_LENGTH} characters or fewer.`),
+  // Hex colour, e.g. "#3b82f6"
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Colour must be a hex value."),
+});
+
+export type Tag = z.infer<typeof tagSchema>;
@@ -1,19 +1,131 @@
-// TODO: Complete the Task interface
-// Hint: What properties should a task have?
+import { z } from "zod";
 
+// Single source of truth for what a task is. The TypeScript types below are
+// derived from these schemas, and the same rules validate tasks coming from
+// the form, storage, import files and sync peers.
 
-export interface Task {
+export const TITLE_MAX_LENGTH = 100;
+export const DESCRIPTION_MAX_LENGTH = 500;
+
+export const prioritySchema = z.enum(["high", "medium", "low"]);
+
+export type Priority = z.infer<typeof prioritySchema>;
+
+// A calendar day ("2026-11-01"); the time of day, if any, is stored separately
+const dueDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be a valid date.")
+  .refine(value => !Number.isNaN(Date.parse(value)), "Due date must be a valid date.");
+
+// Wall-clock time ("17:30") in the task's time zone
+const dueTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Due time must be a valid time.");
+
+// IANA zone name such as "Europe/Berlin"
+const timeZoneSchema = z.string().refine(zone => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Time zone is not recognised.");
+
+export const REMINDER_MAX_MINUTES = 7 * 24 * 60;
+export const REMINDERS_MAX = 5;
+
+// Minutes before the due time at which a reminder goes off
+export const reminderSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(REMINDER_MAX_MINUTES, "Reminders can be at most a week before the due time.");
+
+// Written out by hand because zod cannot infer recursive types
+export interface Subtask {
   id: string;
   title: string;
-  description?: string;
-  priority: Priority;
   completed: boolean;
-  dueDate?: string; // ISO string for serialization
-  createdAt: string; // ISO string
+  subtasks?: Subtask[];
 }
 
-export type Priority = 'high' | 'medium' | 'low';
+export const subtaskSchema = z.lazy(() =>
+  z.object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1).max(TITLE_MAX_LENGTH),
+    completed: z.boolean(),
+    subtasks: z.array(subtaskSchema).optional(),
+  })
+) as z.ZodType<Subtask>;
+
+// An iCalendar RRULE (without the "RRULE:" prefix). fromCompletion schedules
+// the next occurrence from the day the task was completed instead of its due
+// date, which RRULE itself cannot express.
+export const recurrenceSchema = z.object({
+  rule: z
+    .string()
+    .regex(/^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Z0-9,]+)*$/, "Repeat rule is not a valid RRULE."),
+  fromCompletion: z.boolean().optional(),
+});
+
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+
+const taskFieldsSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, "Title is required.")
+    .max(TITLE_MAX_LENGTH, `Title must be ${TITLE_MAX_LENGTH} characters or fewer.`),
+  description: z
+    .string()
+    .max(DESCRIPTION_MAX_LENGTH, `Description must be ${DESCRIPTION_MAX_LENGTH} characters or fewer.`)
+    .optional(),
+  priority: prioritySchema,
+  dueDate: dueDateSchema.optional(),
+  dueTime: dueTimeSchema.optional(),
+  // Zone the due time was set in; the time means the same instant wherever
+  // the task is viewed. Ignored without a due time.
+  timeZone: timeZoneSchema.optional(),
+  reminders: z.array(reminderSchema).max(REMINDERS_MAX).optional(),
+  // When set, the task (and every subtask with children) is complete exactly
+  // when all of its children are
+  completeWithSubtasks: z.boolean().optional(),
+  // Ids from the tag registry
+  tags: z.array(z.string().min(1)).optional(),
+  recurrence: recurrenceSchema.optional(),
+});
+
+export const taskSchema = taskFieldsSchema.extend({
+  id: z.string().min(1),
+  projectId: z.string().min(1),
+  // Fractional index key giving the manual order; compare with plain < and >
+  order: z.string().min(1),
+  // Id of a status in the project's workflow
+  status: z.string().min(1),
+  // Mirrors whether the status is in the "done" category; written together
+  // with `status` (see resolveStatusChanges) so completion checks stay cheap
+  completed: z.boolean(),
+  subtasks: z.array(subtaskSchema).optional(),
+  createdAt: z.string().datetime({ offset: true }),
+  // Set while the task is in the trash; views other than the trash skip it
+  deletedAt: z.string().datetime({ offset: true }).optional(),
+  // When each field was last changed, keyed by field name, so edits made on
+  // different devices can be merged field by field. Fields without an entry
+  // date from createdAt.
+  fieldUpdatedAt: z.record(z.string().datetime({ offset: true })).optional(),
+});
+
+export type Task = z.infer<typeof taskSchema>;
+
+// The form edits a subset of the task; an empty date or time input means "none"
+export const taskFormSchema = taskFieldsSchema
+  .extend({
+    dueDate: z.union([z.literal(""), dueDateSchema]).optional(),
+    dueTime: z.union([z.literal(""), dueTimeSchema]).optional(),
+  })
+  .refine(({ dueDate, dueTime }) => !dueTime || dueDate, { message: "Pick a due date first.", path: ["dueTime"] })
+  .refine(({ dueTime, reminders }) => !reminders?.length || dueTime, {
+    message: "Reminders need a due time.",
+    path: ["reminders"],
+  });
 
-export type TaskFormData = {
-  // Add form data interface here
-};
\ No newline at end of file
+export type TaskFormData = z.infer<typeof taskFormSchema>;
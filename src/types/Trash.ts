@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const RETENTION_DAYS_MAX = 365;
+
+export const trashSettingsSchema = z.object({
+  // Trashed tasks are purged this many days after deletion; null keeps them
+  retentionDays: z.number().int().min(1).max(RETENTION_DAYS_MAX).nullable(),
+});
+
+export type TrashSettings = z.infer<typeof trashSettingsSchema>;
@@ -0,0 +1,31 @@
+import { z } from "zod";
+
+export const STATUS_NAME_MAX_LENGTH = 30;
+
+// What a status means regardless of its name; a task counts as completed
+// exactly when its status is in the "done" category
+export const statusCategorySchema = z.enum(["not_started", "active", "done"]);
+
+export type StatusCategory = z.infer<typeof statusCategorySchema>;
+
+export const workflowStatusSchema = z.object({
+  id: z.string().min(1),
+  name: z
+    .string()
+    .trim()
+    .min(1, "Status name is required.")
+    .max(STATUS_NAME_MAX_LENGTH, `Status name must be ${STATUS_NAME_MAX_LENGTH} characters or fewer.`),
+  category: statusCategorySchema,
+});
+
+export type WorkflowStatus = z.infer<typeof workflowStatusSchema>;
+
+export const workflowSchema = z.object({
+  // In board column order
+  statuses: z.array(workflowStatusSchema).min(1),
+  // Allowed target status ids keyed by source status id. A status without an
+  // entry may move to any other status.
+  transitions: z.record(z.array(z.string())),
+});
+
+export type Workflow = z.infer<typeof workflowSchema>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { projectSchema } from "./Project";
+import { tagSchema } from "./Tag";
+import { workflowSchema } from "./Workflow";
+
+export const WORKSPACE_FILE_FORMAT = "task-workspace";
+export const WORKSPACE_FILE_VERSION = 1;
+
+// A JSON export of the whole workspace. `version` is the file layout;
+// `schemaVersion` is the task schema the records were written with, so older
+// exports go through the same migrations as stored tasks.
+export const workspaceFileSchema = z.object({
+  format: z.literal(WORKSPACE_FILE_FORMAT),
+  version: z.literal(WORKSPACE_FILE_VERSION),
+  exportedAt: z.string().datetime({ offset: true }),
+  schemaVersion: z.number().int().min(0),
+  // Validated one by one on import, so a bad record doesn't sink the file
+  tasks: z.array(z.unknown()),
+  projects: z.array(projectSchema).default([]),
+  tags: z.array(tagSchema).default([]),
+  // Customised workflows keyed by project id
+  workflows: z.record(workflowSchema).default({}),
+});
+
+export type WorkspaceFile = z.infer<typeof workspaceFileSchema>;
+
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TASK_STORAGE?: "localStorage" | "indexedDB" | "memory";
+  // Base URL of the sync server; tasks stay on this device when unset
+  readonly VITE_SYNC_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
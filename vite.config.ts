@@ -1,8 +1,32 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 import tagger from "react-lovable"
+import { createMockTaskServer } from "./src/lib/sync/mockServer";
+
+// Serves an in-memory sync server at /mock-api while developing. Start with
+// VITE_SYNC_URL=/mock-api to try syncing without a backend.
+const mockSyncServer = (): Plugin => ({
+  name: "mock-sync-server",
+  configureServer(server) {
+    const mock = createMockTaskServer({ latency: 300 });
+    server.middlewares.use("/mock-api", async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const hasBody = req.method !== "GET" && req.method !== "HEAD";
+      const response = await mock.handle(
+        new Request(`http://localhost${req.url ?? "/"}`, {
+          method: req.method,
+          body: hasBody ? Buffer.concat(chunks) : undefined,
+        })
+      );
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => res.setHeader(name, value));
+      res.end(await response.text());
+    });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +37,7 @@ export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
     tagger(),
+    mockSyncServer(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),